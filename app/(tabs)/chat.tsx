@@ -15,6 +15,7 @@ import {
   KeyboardAvoidingView,
   Keyboard,
   Dimensions,
+  Alert,
 } from "react-native";
 import { BlurView } from "expo-blur";
 import { Ionicons } from "@expo/vector-icons";
@@ -25,25 +26,38 @@ import ChatMessage from "@/components/chat/ChatMessage";
 import ChatInput from "@/components/chat/ChatInput";
 import LoadingIndicator from "@/components/ui/LoadingIndicator";
 import SuggestedQuestions from "@/components/chat/SuggestedQuestions";
+import ConversationDrawer from "@/components/chat/ConversationDrawer";
 import {
   getOrCreateSessionId,
+  parseStreamResponse,
+  resumeConversation,
   sendChatMessage,
   startNewConversation,
+  summarizeChatTitle,
 } from "@/utils/api";
+import { CONFIG } from "@/utils/config";
+import { isAbortError } from "@/utils/apiErrors";
+import { describeError, type ErrorDescription } from "@/utils/errorMessages";
+import { useAuth } from "@/hooks/useAuth";
 import {
   loadMessages,
   saveMessages,
-  clearMessages,
+  deleteConversation,
   purgeExpiredSessions,
   getChatLanguage,
   setChatLanguage,
   getLastChatLanguage,
   setLastChatLanguage,
+  setSummaryTitle,
+  type AnswerVersion,
   type Message,
 } from "@/utils/chatStorage";
-import { ERROR_MESSAGES, UI_CONSTANTS } from "@/utils/constants";
+import { UI_CONSTANTS } from "@/utils/constants";
+import { createLogger } from "@/utils/logger";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 
+const log = createLogger("chat");
+
 // Estimated input container height for padding calculations
 const INPUT_CONTAINER_HEIGHT = 70;
 const INPUT_ACCESSORY_ID = "chatInputAccessory";
@@ -51,6 +65,8 @@ const HEADER_HORIZONTAL_PADDING = 20;
 const HEADER_BOTTOM_PADDING = 12;
 const HEADER_ACTION_SIZE = 28;
 const HEADER_ACTION_HIT_SLOP = { top: 12, right: 12, bottom: 12, left: 12 };
+// How long a message opened from search stays highlighted
+const SEARCH_HIGHLIGHT_MS = 2500;
 
 type ChatLanguage = "english" | "arabic" | "french" | "urdu" | "farsi";
 
@@ -64,6 +80,37 @@ const CHAT_LANGUAGES: { value: ChatLanguage; label: string }[] = [
 
 const DEFAULT_LANGUAGE: ChatLanguage = "english";
 
+/**
+ * Answers to keep when the question at `userIndex` is asked again: the
+ * earlier versions plus the current answer, unless it only holds an error
+ */
+function answerVersions(
+  messages: Message[],
+  userIndex: number
+): AnswerVersion[] | undefined {
+  const question = messages[userIndex];
+  const answer = messages[userIndex + 1];
+  if (!question || answer?.sender !== "bot") return undefined;
+  const versions = answer.versions ?? [];
+  if (answer.status === "error" || !answer.text) {
+    return versions.length > 0 ? versions : undefined;
+  }
+  return [
+    ...versions,
+    {
+      question: question.text,
+      text: answer.text,
+      references: answer.references,
+      status: answer.status,
+    },
+  ];
+}
+
+function languageLabel(language: string | null) {
+  const value = language || DEFAULT_LANGUAGE;
+  return CHAT_LANGUAGES.find((l) => l.value === value)?.label || value;
+}
+
 // Memoized empty state component to prevent re-renders
 const EmptyState = React.memo(({
   showSuggestions,
@@ -163,15 +210,40 @@ export default function ChatScreen() {
   const messagesPaddingTop = headerPaddingTop + 56;
 
   const [messages, setMessages] = useState<Message[]>([]);
+  // Read by the message actions, so renderMessage doesn't change per chunk
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  // True from send until the answer completes, fails or is stopped
+  const [isStreaming, setIsStreaming] = useState(false);
+  // Latest progress line from event-based streams ("Searching sources…")
+  const [streamStatus, setStreamStatus] = useState<string | null>(null);
+  // The answer text is in and the references payload is still arriving
+  const [isGatheringSources, setIsGatheringSources] = useState(false);
   const [isNewChatLoading, setIsNewChatLoading] = useState(false);
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [selectedLanguage, setSelectedLanguage] =
     useState<ChatLanguage>(DEFAULT_LANGUAGE);
   const [isLanguageModalVisible, setIsLanguageModalVisible] = useState(false);
+  const [isDrawerVisible, setIsDrawerVisible] = useState(false);
+  // Description of the failure shown in the last bot bubble, if any
+  const [lastError, setLastError] = useState<ErrorDescription | null>(null);
+  const { signOut } = useAuth();
   const flatListRef = useRef<FlatList>(null);
   const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
+  // Session whose stored messages are in state; saving waits for it so a
+  // switch never writes one conversation's messages into another
+  const loadedSessionRef = useRef<string | null>(null);
+  // Message to scroll to once its conversation's messages are loaded
+  const [messageTarget, setMessageTarget] = useState<{
+    sessionId: string;
+    index: number;
+  } | null>(null);
+  const [highlightedIndex, setHighlightedIndex] = useState<number | null>(null);
+  // User message being edited in the input; sending re-asks from there
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
 
   // Track if suggestions should show (separate state to avoid re-renders on every keystroke)
   const [showSuggestions, setShowSuggestions] = useState(true);
@@ -195,6 +267,13 @@ export default function ChatScreen() {
     initialize();
   }, []);
 
+  // Cancel any in-flight answer when leaving the screen
+  useEffect(() => {
+    return () => {
+      streamAbortRef.current?.abort();
+    };
+  }, []);
+
   // Scroll to bottom when keyboard opens
   useEffect(() => {
     const showEvent = Platform.OS === "ios" ? "keyboardWillShow" : "keyboardDidShow";
@@ -214,14 +293,23 @@ export default function ChatScreen() {
   useEffect(() => {
     if (!sessionId) return;
 
+    let isCancelled = false;
+    loadedSessionRef.current = null;
+
     const loadInitialMessages = async () => {
       const initial = await loadMessages(sessionId);
+      if (isCancelled) return;
       if (initial.length > 0) {
         console.log(`💾 Loaded ${initial.length} message(s) from storage`);
       }
+      loadedSessionRef.current = sessionId;
       setMessages(initial);
     };
     loadInitialMessages();
+
+    return () => {
+      isCancelled = true;
+    };
   }, [sessionId]);
 
   // Load / resolve language when session ID changes
@@ -258,7 +346,7 @@ export default function ChatScreen() {
 
   // Save messages with debouncing
   useEffect(() => {
-    if (!sessionId) return;
+    if (!sessionId || loadedSessionRef.current !== sessionId) return;
 
     if (saveTimerRef.current) {
       clearTimeout(saveTimerRef.current);
@@ -275,6 +363,33 @@ export default function ChatScreen() {
     };
   }, [sessionId, messages]);
 
+  // Scroll to a message opened from search and highlight it briefly
+  useEffect(() => {
+    if (
+      !messageTarget ||
+      messageTarget.sessionId !== sessionId ||
+      loadedSessionRef.current !== sessionId
+    ) {
+      return;
+    }
+    setMessageTarget(null);
+    if (messageTarget.index >= messages.length) return;
+    setHighlightedIndex(messageTarget.index);
+    flatListRef.current?.scrollToIndex({
+      index: messageTarget.index,
+      viewPosition: 0.3,
+    });
+  }, [messageTarget, sessionId, messages.length]);
+
+  useEffect(() => {
+    if (highlightedIndex === null) return;
+    const timer = setTimeout(
+      () => setHighlightedIndex(null),
+      SEARCH_HIGHLIGHT_MS
+    );
+    return () => clearTimeout(timer);
+  }, [highlightedIndex]);
+
   // Smart auto-scroll
   const hasStartedChat = messages.some((m) => m.sender === "user");
 
@@ -309,19 +424,19 @@ export default function ChatScreen() {
   );
 
   const handleNewChat = useCallback(async () => {
-    if (isLoading || isNewChatLoading) return;
+    if (isLoading || isStreaming || isNewChatLoading) return;
 
     setIsNewChatLoading(true);
+    setIsDrawerVisible(false);
 
     try {
-      if (sessionId) {
-        await clearMessages(sessionId);
-      }
-
+      // The current chat stays in the history (see ConversationDrawer)
       const newId = await startNewConversation();
       setSessionId(newId);
       setMessages([]);
+      setLastError(null);
       setInput("");
+      setEditingIndex(null);
       setShowSuggestions(true);
 
       // Default new chats to the last selected language (or English)
@@ -334,20 +449,121 @@ export default function ChatScreen() {
     } finally {
       setIsNewChatLoading(false);
     }
-  }, [isLoading, isNewChatLoading, sessionId]);
+  }, [isLoading, isStreaming, isNewChatLoading]);
 
-  const handleSendMessage = useCallback(async () => {
-    if (!input.trim() || !sessionId || isLoading) return;
+  const handleOpenConversation = useCallback(
+    async (id: string) => {
+      setIsDrawerVisible(false);
+      if (id === sessionId || isLoading || isStreaming) return;
 
-    const userMessage: Message = { sender: "user", text: input };
-    const botPlaceholder: Message = { sender: "bot", text: "" };
+      // Messages and language are restored by the session effects above
+      await resumeConversation(id);
+      setMessages([]);
+      setSessionId(id);
+      setLastError(null);
+      setInput("");
+      setEditingIndex(null);
+      setShowSuggestions(true);
+    },
+    [sessionId, isLoading, isStreaming]
+  );
 
-    setMessages((prev) => [...prev, userMessage, botPlaceholder]);
-    setInput("");
+  const handleOpenSearchResult = useCallback(
+    (id: string, messageIndex: number) => {
+      if (id !== sessionId && (isLoading || isStreaming)) {
+        setIsDrawerVisible(false);
+        return;
+      }
+      setMessageTarget({ sessionId: id, index: messageIndex });
+      handleOpenConversation(id);
+    },
+    [sessionId, isLoading, isStreaming, handleOpenConversation]
+  );
+
+  // Rows further up than the list has rendered can't be scrolled to directly:
+  // jump near them by estimate, then retry once they're laid out
+  const handleScrollToIndexFailed = useCallback(
+    (info: { index: number; averageItemLength: number }) => {
+      flatListRef.current?.scrollToOffset({
+        offset: info.averageItemLength * info.index,
+        animated: false,
+      });
+      setTimeout(() => {
+        flatListRef.current?.scrollToIndex({
+          index: info.index,
+          viewPosition: 0.3,
+        });
+      }, 100);
+    },
+    []
+  );
+
+  const handleDeleteConversation = useCallback(
+    async (id: string) => {
+      if (id === sessionId) {
+        // Stop a pending save from bringing the deleted chat back
+        if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+        loadedSessionRef.current = null;
+      }
+      await deleteConversation(id);
+      if (id === sessionId) handleNewChat();
+    },
+    [sessionId, handleNewChat]
+  );
+
+  /**
+   * Ask `question` at the end of the chat, or in place of the messages from
+   * `replaceFrom` on (regenerate / edit). `versions` are earlier answers the
+   * new one keeps.
+   */
+  const askQuestion = useCallback(async (
+    question: string,
+    options: { replaceFrom?: number; versions?: AnswerVersion[] } = {}
+  ) => {
+    if (!question.trim() || !sessionId || isLoading || isStreaming) return;
+
+    const userMessage: Message = { sender: "user", text: question };
+    const botPlaceholder: Message = {
+      sender: "bot",
+      text: "",
+      versions: options.versions,
+    };
+
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
+
+    const showError = (error: unknown) => {
+      const description = describeError(error, selectedLanguage);
+      setLastError(description);
+      setMessages((prev) => {
+        const updated = [...prev];
+        const lastIndex = updated.length - 1;
+        updated[lastIndex] = {
+          sender: "bot",
+          text: description.message,
+          status: "error",
+          versions: updated[lastIndex].versions,
+        };
+        return updated;
+      });
+    };
+
+    // Set once the answer completes, for the optional summary title
+    let answer = "";
+
+    setMessages((prev) => [
+      ...prev.slice(0, options.replaceFrom ?? prev.length),
+      userMessage,
+      botPlaceholder,
+    ]);
+    setLastError(null);
+    setStreamStatus(null);
+    setIsGatheringSources(false);
     setIsLoading(true);
+    setIsStreaming(true);
     try {
       await sendChatMessage(
-        input,
+        question,
         sessionId,
         selectedLanguage,
         (fullMessage) => {
@@ -355,11 +571,12 @@ export default function ChatScreen() {
           setMessages((prev) => {
             const updated = [...prev];
             const lastIndex = updated.length - 1;
-            updated[lastIndex] = { sender: "bot", text: fullMessage };
+            updated[lastIndex] = { ...updated[lastIndex], text: fullMessage };
             return updated;
           });
         },
         (responseText, references) => {
+          answer = responseText;
           setMessages((prev) => {
             const updated = [...prev];
             const lastIndex = updated.length - 1;
@@ -367,38 +584,146 @@ export default function ChatScreen() {
               sender: "bot",
               text: responseText,
               references: references,
+              versions: updated[lastIndex].versions,
             };
             return updated;
           });
         },
         (error) => {
-          console.error("❌ Chat error:", error);
           setIsLoading(false);
-          setMessages((prev) => {
-            const updated = [...prev];
-            const lastIndex = updated.length - 1;
-            updated[lastIndex] = {
-              sender: "bot",
-              text: ERROR_MESSAGES.CHAT_FAILED,
-            };
-            return updated;
-          });
+          if (isAbortError(error)) {
+            // Keep whatever was streamed so far, including sources an event
+            // stream already delivered; drop a partial references payload
+            setMessages((prev) => {
+              const updated = [...prev];
+              const lastIndex = updated.length - 1;
+              const partial = updated[lastIndex];
+              updated[lastIndex] = {
+                ...partial,
+                text: parseStreamResponse(partial?.text || "").responseText,
+                status: "interrupted",
+              };
+              return updated;
+            });
+            return;
+          }
+          log.error("❌ Chat error:", error);
+          showError(error);
+        },
+        {
+          signal: controller.signal,
+          onStatus: (status) => setStreamStatus(status || null),
+          onReferencesPending: () => setIsGatheringSources(true),
+          // Event streams may deliver sources before the answer finishes
+          onReferences: (references) => {
+            setMessages((prev) => {
+              const updated = [...prev];
+              const lastIndex = updated.length - 1;
+              updated[lastIndex] = { ...updated[lastIndex], references };
+              return updated;
+            });
+          },
         }
       );
     } catch (error) {
-      console.error("❌ Error in handleSendMessage:", error);
+      log.error("❌ Error in handleSendMessage:", error);
       setIsLoading(false);
-      setMessages((prev) => {
-        const updated = [...prev];
-        const lastIndex = updated.length - 1;
-        updated[lastIndex] = {
-          sender: "bot",
-          text: ERROR_MESSAGES.CHAT_FAILED,
-        };
-        return updated;
+      showError(error);
+    } finally {
+      if (streamAbortRef.current === controller) {
+        streamAbortRef.current = null;
+      }
+      setIsStreaming(false);
+      setStreamStatus(null);
+      setIsGatheringSources(false);
+    }
+
+    // The first question already titles the chat; a summary may replace it
+    if (CONFIG.CHAT_TITLE_SUMMARIES && !hasStartedChat && answer) {
+      summarizeChatTitle(sessionId, question, answer)
+        .then((title) => {
+          if (title) return setSummaryTitle(sessionId, title);
+        })
+        .catch((e) => log.warn("⚠️ Chat title summary failed:", e));
+    }
+  }, [sessionId, selectedLanguage, isLoading, isStreaming, hasStartedChat]);
+
+  const handleSendMessage = useCallback(() => {
+    if (!input.trim()) return;
+    setInput("");
+    if (editingIndex !== null) {
+      // Everything after the edited question is replaced by the new exchange
+      setEditingIndex(null);
+      askQuestion(input, {
+        replaceFrom: editingIndex,
+        versions: answerVersions(messages, editingIndex),
       });
+      return;
+    }
+    askQuestion(input);
+  }, [input, editingIndex, messages, askQuestion]);
+
+  // The session's history is linear, so regenerating an earlier answer
+  // replaces the exchanges after it, as editing its question does
+  const handleRegenerate = useCallback(
+    (answerIndex: number) => {
+      const current = messagesRef.current;
+      const userIndex = answerIndex - 1;
+      const question = current[userIndex];
+      if (question?.sender !== "user") return;
+      const regenerate = () =>
+        askQuestion(question.text, {
+          replaceFrom: userIndex,
+          versions: answerVersions(current, userIndex),
+        });
+      if (answerIndex === current.length - 1) {
+        regenerate();
+        return;
+      }
+      Alert.alert(
+        "Regenerate answer?",
+        "The messages after this answer will be removed from the chat.",
+        [
+          { text: "Cancel", style: "cancel" },
+          { text: "Regenerate", onPress: regenerate },
+        ]
+      );
+    },
+    [askQuestion]
+  );
+
+  const handleEditMessage = useCallback((index: number) => {
+    setEditingIndex(index);
+    setInput(messagesRef.current[index].text);
+  }, []);
+
+  const handleCancelEdit = useCallback(() => {
+    setEditingIndex(null);
+    setInput("");
+  }, []);
+
+  // Drop the failed exchange and ask the same question again
+  const handleRetryLast = useCallback(() => {
+    const lastUser = [...messages].reverse().find((m) => m.sender === "user");
+    if (!lastUser) return;
+    askQuestion(lastUser.text, {
+      replaceFrom: messages.length - 2,
+      versions: answerVersions(messages, messages.length - 2),
+    });
+  }, [messages, askQuestion]);
+
+  const handleErrorAction = useCallback(() => {
+    if (lastError?.action === "retry") {
+      handleRetryLast();
+    } else if (lastError?.action === "signIn") {
+      // Clearing the stale session sends the user to the login screen
+      signOut();
     }
-  }, [input, sessionId, selectedLanguage, isLoading]);
+  }, [lastError, handleRetryLast, signOut]);
+
+  const handleStopGenerating = useCallback(() => {
+    streamAbortRef.current?.abort();
+  }, []);
 
   const renderMessage = useCallback(({ item, index }: { item: Message; index: number }) => {
     if (
@@ -411,8 +736,61 @@ export default function ChatScreen() {
       return null;
     }
 
-    return <ChatMessage message={item} />;
-  }, [isLoading, messages.length]);
+    const showErrorAction =
+      item.status === "error" &&
+      index === messages.length - 1 &&
+      lastError?.action !== undefined &&
+      lastError.action !== "none" &&
+      !isStreaming;
+
+    const canAct = !isLoading && !isStreaming;
+
+    return (
+      <ChatMessage
+        message={item}
+        highlighted={index === highlightedIndex}
+        question={
+          item.sender === "bot"
+            ? messagesRef.current[index - 1]?.text
+            : undefined
+        }
+        onEdit={
+          canAct && item.sender === "user"
+            ? () => handleEditMessage(index)
+            : undefined
+        }
+        onRegenerate={
+          canAct && item.sender === "bot"
+            ? () => handleRegenerate(index)
+            : undefined
+        }
+        isGatheringSources={
+          isGatheringSources &&
+          item.sender === "bot" &&
+          index === messages.length - 1
+        }
+        errorAction={
+          showErrorAction && lastError?.actionLabel
+            ? {
+                label: lastError.actionLabel,
+                icon: lastError.action === "signIn" ? "log-in-outline" : "refresh",
+                onPress: handleErrorAction,
+              }
+            : undefined
+        }
+      />
+    );
+  }, [
+    isLoading,
+    isStreaming,
+    isGatheringSources,
+    messages.length,
+    lastError,
+    handleErrorAction,
+    highlightedIndex,
+    handleEditMessage,
+    handleRegenerate,
+  ]);
 
   const bottomPadding = INPUT_CONTAINER_HEIGHT + insets.bottom + 16;
 
@@ -470,11 +848,11 @@ export default function ChatScreen() {
             },
           ]}
         >
-          <LoadingIndicator message="Thinking..." />
+          <LoadingIndicator message={streamStatus || "Thinking..."} />
         </View>
       </View>
     );
-  }, [isLoading, colors.panel, colors.border]);
+  }, [isLoading, streamStatus, colors.panel, colors.border]);
 
   return (
     <View style={[styles.container, { backgroundColor: colors.background }]}>
@@ -530,6 +908,18 @@ export default function ChatScreen() {
         </View>
       </Modal>
 
+      <ConversationDrawer
+        visible={isDrawerVisible}
+        onClose={() => setIsDrawerVisible(false)}
+        currentSessionId={sessionId}
+        languageLabel={languageLabel}
+        onSelect={handleOpenConversation}
+        onSelectMessage={handleOpenSearchResult}
+        onNewChat={handleNewChat}
+        onDelete={handleDeleteConversation}
+        disabled={isLoading || isStreaming || isNewChatLoading}
+      />
+
       {/* Header */}
       <BlurView
         intensity={blurIntensity}
@@ -545,6 +935,13 @@ export default function ChatScreen() {
       >
         <View style={styles.headerContent}>
           <View style={styles.headerLeft}>
+            <TouchableOpacity
+              hitSlop={HEADER_ACTION_HIT_SLOP}
+              onPress={() => setIsDrawerVisible(true)}
+              accessibilityLabel="Show past chats"
+            >
+              <Ionicons name="menu" size={22} color={colors.text} />
+            </TouchableOpacity>
             <Image
               source={require("@/assets/images/deen-logo-icon.png")}
               style={styles.headerLogo}
@@ -565,7 +962,7 @@ export default function ChatScreen() {
               },
             ]}
             onPress={handleNewChat}
-            disabled={isLoading || isNewChatLoading}
+            disabled={isLoading || isStreaming || isNewChatLoading}
             activeOpacity={0.7}
           >
             {isNewChatLoading ? (
@@ -606,15 +1003,41 @@ export default function ChatScreen() {
           keyboardShouldPersistTaps="handled"
           keyboardDismissMode="interactive"
           removeClippedSubviews={false}
+          onScrollToIndexFailed={handleScrollToIndexFailed}
         />
 
         {/* Input at bottom */}
         <View style={styles.inputContainer}>
+          {editingIndex !== null && (
+            <View
+              style={[
+                styles.editingBanner,
+                { backgroundColor: colors.panel, borderColor: colors.border },
+              ]}
+            >
+              <Ionicons name="create-outline" size={16} color={colors.primary} />
+              <ThemedText
+                numberOfLines={2}
+                style={[styles.editingText, { color: colors.textSecondary }]}
+              >
+                Editing your question. Sending it replaces the messages after it.
+              </ThemedText>
+              <TouchableOpacity
+                hitSlop={HEADER_ACTION_HIT_SLOP}
+                onPress={handleCancelEdit}
+              >
+                <ThemedText style={[styles.editingCancel, { color: colors.primary }]}>
+                  Cancel
+                </ThemedText>
+              </TouchableOpacity>
+            </View>
+          )}
           <ChatInput
             value={input}
             onChange={setInput}
             onSubmit={handleSendMessage}
-            isLoading={isLoading}
+            isLoading={isLoading || isStreaming}
+            onStop={isStreaming ? handleStopGenerating : undefined}
           />
         </View>
       </KeyboardAvoidingView>
@@ -767,4 +1190,22 @@ const styles = StyleSheet.create({
   inputContainer: {
     borderTopWidth: 0,
   },
+  editingBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginHorizontal: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  editingText: {
+    flex: 1,
+    fontSize: 12,
+  },
+  editingCancel: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
 });
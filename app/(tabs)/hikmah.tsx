@@ -1,4 +1,4 @@
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   StyleSheet,
   View,
@@ -8,24 +8,35 @@ import {
   ActivityIndicator,
   Platform,
   Image,
+  LayoutChangeEvent,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
 } from "react-native";
 import { BlurView } from "expo-blur";
 import { ThemedView } from "@/components/themed-view";
 import { ThemedText } from "@/components/themed-text";
 import { Colors } from "@/constants/theme";
 import { useColorScheme } from "@/hooks/use-color-scheme";
-import {
-  getHikmahTrees,
-  getLessonsByTreeId,
-  HikmahTree,
-  listUserProgress,
-} from "@/utils/api";
+import { HikmahTree, UserProgress, listUserProgress } from "@/utils/api";
+import { fetchQuery } from "@/utils/queryCache";
+import { hikmahTreesQuery, lessonsByTreeQuery } from "@/utils/hikmahQueries";
 import { setProgress } from "@/utils/hikmahStorage";
+import { createTaskQueue } from "@/utils/taskQueue";
+import { isAbortError } from "@/utils/apiErrors";
 import TreeCard from "@/components/hikmah/TreeCard";
 import ComingSoonCard from "@/components/hikmah/ComingSoonCard";
 import { Ionicons } from "@expo/vector-icons";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useAuth } from "@/hooks/useAuth";
+import { describeError, type ErrorDescription } from "@/utils/errorMessages";
+import { createLogger } from "@/utils/logger";
+
+const log = createLogger("api");
+
+// Lesson lists are only needed for counts/progress, so load a few at a time
+const LESSON_LOAD_CONCURRENCY = 4;
+
+type TreeLessons = NonNullable<HikmahTree["lessons"]>;
 
 const COMING_SOON_COURSES = [
   { id: "foundations-islam", title: "The Foundations of Islam" },
@@ -37,7 +48,7 @@ export default function HikmahScreen() {
   const insets = useSafeAreaInsets();
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme];
-  const { user } = useAuth();
+  const { user, signOut } = useAuth();
   const userId = user?.email || user?.sub;
   const blurIntensity = Platform.OS === "android" ? 120 : 60;
   const headerOverlayColor =
@@ -47,88 +58,114 @@ export default function HikmahScreen() {
   const [query, setQuery] = useState("");
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [error, setError] = useState("");
+  const [error, setError] = useState<ErrorDescription | null>(null);
 
-  const hydrateBackendProgress = async (treesWithLessons: HikmahTree[]) => {
-    try {
-      if (!userId) return;
-      const progress = await listUserProgress({ user_id: userId });
-      if (!Array.isArray(progress) || progress.length === 0) return;
+  const [lessonsByTree, setLessonsByTree] = useState<
+    Record<string, TreeLessons>
+  >({});
 
-      // Map treeId -> valid lesson ids (to filter out stale backend data)
-      const lessonMap = new Map<number | string, Set<string>>();
-      treesWithLessons.forEach((tree) => {
-        if (tree?.id && Array.isArray(tree.lessons)) {
-          lessonMap.set(
-            tree.id,
-            new Set(tree.lessons.map((l) => String(l.id)))
-          );
-        }
-      });
+  const lessonQueueRef = useRef(createTaskQueue(LESSON_LOAD_CONCURRENCY));
+  const progressRef = useRef<Promise<UserProgress[]>>(Promise.resolve([]));
+  const cardLayoutsRef = useRef(new Map<string, { y: number; height: number }>());
+  const viewportRef = useRef({ offset: 0, height: 0 });
+  // Bumped by every load so lessons from an earlier one don't land late
+  const loadGenerationRef = useRef(0);
+  const visibleTreeIdsRef = useRef<Set<string>>(new Set());
 
-      // Group completed lessons by tree
-      const grouped = new Map<number | string, Set<string>>();
-      progress.forEach((p: any) => {
-        const treeId = p?.hikmah_tree_id;
-        const lessonId = p?.lesson_id;
-        if (treeId == null || lessonId == null || !p?.is_completed) return;
-        const validLessons = lessonMap.get(treeId);
-        if (!validLessons) return;
-        const lessonIdStr = String(lessonId);
-        if (!validLessons.has(lessonIdStr)) return;
-        if (!grouped.has(treeId)) grouped.set(treeId, new Set());
-        grouped.get(treeId)!.add(lessonIdStr);
+  // Apply backend completion data for one tree once its lessons are known
+  const hydrateBackendProgress = async (
+    treeId: number,
+    lessons: TreeLessons
+  ) => {
+    try {
+      const progress = await progressRef.current;
+      if (progress.length === 0) return;
+
+      // Only keep lessons that still exist (filters out stale backend data)
+      const validLessons = new Set(lessons.map((l) => String(l.id)));
+      const completed = new Set<string>();
+      progress.forEach((p) => {
+        if (p.hikmah_tree_id !== treeId || !p.is_completed) return;
+        const lessonIdStr = String(p.lesson_id);
+        if (validLessons.has(lessonIdStr)) completed.add(lessonIdStr);
       });
 
-      if (grouped.size === 0) return;
+      if (completed.size === 0) return;
 
       // Persist to local storage so useHikmahProgress picks it up
-      await Promise.all(
-        Array.from(grouped.entries()).map(([treeId, lessonIds]) =>
-          setProgress(treeId, Array.from(lessonIds))
-        )
-      );
+      await setProgress(treeId, Array.from(completed));
+    } catch (err) {
+      log.warn(`⚠️ Progress hydration failed for tree ${treeId}:`, err);
+    }
+  };
+
+  const loadTreeLessons = async (
+    tree: HikmahTree,
+    force: boolean,
+    generation: number
+  ) => {
+    let lessons: TreeLessons = [];
+    try {
+      const list = await fetchQuery(lessonsByTreeQuery(tree.id), { force });
+      lessons = list.map((l) => ({ id: String(l.id), title: l.title }));
     } catch (err) {
-      console.warn("⚠️ Progress hydration failed:", err);
+      log.warn(`⚠️ Failed to fetch lessons for tree ${tree.id}:`, err);
     }
+    if (generation !== loadGenerationRef.current) return;
+    await hydrateBackendProgress(tree.id, lessons);
+    setLessonsByTree((prev) => ({ ...prev, [String(tree.id)]: lessons }));
   };
 
-  const loadData = async () => {
+  // Move the cards currently on screen to the front of the lesson queue
+  const prioritizeVisibleTrees = useCallback(() => {
+    const { offset, height } = viewportRef.current;
+    if (!height) return;
+    const visible: string[] = [];
+    cardLayoutsRef.current.forEach((layout, treeId) => {
+      if (!visibleTreeIdsRef.current.has(treeId)) return;
+      if (layout.y + layout.height >= offset && layout.y <= offset + height) {
+        visible.push(treeId);
+      }
+    });
+    lessonQueueRef.current.prioritize(visible);
+  }, []);
+
+  const loadData = async (force = false) => {
+    const generation = ++loadGenerationRef.current;
     try {
-      setError("");
-      const data = await getHikmahTrees({ limit: 100 });
-      const treesArray = Array.isArray(data) ? data : [];
+      setError(null);
+      // Goes through the shared cache so tree/lesson screens reuse these responses
+      const treesArray = await fetchQuery(hikmahTreesQuery(), { force });
 
-      // Fetch lessons for each tree to compute progress
-      // In a real app, we might want to do this lazily or have the backend return counts
-      // but for now we match web implementation
-      const treesWithLessons = await Promise.all(
-        treesArray.map(async (tree) => {
-          try {
-            const lessons = await getLessonsByTreeId(tree.id, {
-              order_by: "order_position",
-              limit: 200,
-            });
-            return {
-              ...tree,
-              lessons: Array.isArray(lessons)
-                ? lessons.map((l) => ({ id: String(l.id), title: l.title }))
-                : [],
-            };
-          } catch (err) {
-            console.warn(`Failed to fetch lessons for tree ${tree.id}:`, err);
-            return { ...tree, lessons: [] };
-          }
-        })
-      );
+      // Render the trees right away; lesson counts and progress fill in as
+      // the queue below works through them
+      setTrees(treesArray);
 
       // Pull down latest completion data from backend so first-time installs show progress
-      await hydrateBackendProgress(treesWithLessons);
+      progressRef.current = userId
+        ? listUserProgress({ user_id: userId }).catch((err) => {
+            log.warn("⚠️ Failed to fetch backend progress:", err);
+            return [];
+          })
+        : Promise.resolve([]);
 
-      setTrees(treesWithLessons);
-    } catch (err: any) {
-      console.error("Failed to load hikmah trees:", err);
-      setError(err?.message || "Failed to load hikmah trees.");
+      const queue = lessonQueueRef.current;
+      queue.clear();
+      treesArray.forEach((tree) => {
+        queue
+          .enqueue(String(tree.id), () =>
+            loadTreeLessons(tree, force, generation)
+          )
+          .catch((err) => {
+            if (!isAbortError(err)) {
+              log.warn(`⚠️ Lesson queue task failed for tree ${tree.id}:`, err);
+            }
+          });
+      });
+      prioritizeVisibleTrees();
+    } catch (err) {
+      log.error("❌ Failed to load Hikmah trees:", err);
+      setError(describeError(err));
     } finally {
       setLoading(false);
       setRefreshing(false);
@@ -137,23 +174,56 @@ export default function HikmahScreen() {
 
   useEffect(() => {
     loadData();
+    const queue = lessonQueueRef.current;
+    return () => queue.clear();
   }, []);
 
+  const handleErrorAction = () => {
+    if (error?.action === "signIn") {
+      // Clearing the stale session sends the user to the login screen
+      signOut();
+      return;
+    }
+    setLoading(true);
+    loadData();
+  };
+
   const onRefresh = () => {
     setRefreshing(true);
-    loadData();
+    loadData(true);
   };
 
   const filtered = useMemo(() => {
     const q = query.trim().toLowerCase();
-    return trees.filter((t) => {
-      return (
-        !q ||
-        t.title.toLowerCase().includes(q) ||
-        (t.subtitle || "").toLowerCase().includes(q)
-      );
-    });
-  }, [trees, query]);
+    return trees
+      .filter((t) => {
+        return (
+          !q ||
+          t.title.toLowerCase().includes(q) ||
+          (t.subtitle || "").toLowerCase().includes(q)
+        );
+      })
+      .map((t) => ({ ...t, lessons: lessonsByTree[String(t.id)] }));
+  }, [trees, query, lessonsByTree]);
+
+  useEffect(() => {
+    visibleTreeIdsRef.current = new Set(filtered.map((t) => String(t.id)));
+    prioritizeVisibleTrees();
+  }, [filtered, prioritizeVisibleTrees]);
+
+  const handleCardLayout = (treeId: number) => (e: LayoutChangeEvent) => {
+    const { y, height } = e.nativeEvent.layout;
+    cardLayoutsRef.current.set(String(treeId), { y, height });
+    prioritizeVisibleTrees();
+  };
+
+  const handleScroll = (e: NativeSyntheticEvent<NativeScrollEvent>) => {
+    viewportRef.current = {
+      offset: e.nativeEvent.contentOffset.y,
+      height: e.nativeEvent.layoutMeasurement.height,
+    };
+    prioritizeVisibleTrees();
+  };
 
   const filteredComingSoon = useMemo(() => {
     const q = query.trim().toLowerCase();
@@ -236,18 +306,20 @@ export default function HikmahScreen() {
       ) : error ? (
         <View style={[styles.center, { paddingTop: contentTopOffset }]}>
           <ThemedText style={{ color: "red", textAlign: "center" }}>
-            {error}
-          </ThemedText>
-          <ThemedText
-            style={{
-              marginTop: 16,
-              color: colors.primary,
-              textDecorationLine: "underline",
-            }}
-            onPress={loadData}
-          >
-            Try Again
+            {error.message}
           </ThemedText>
+          {error.actionLabel ? (
+            <ThemedText
+              style={{
+                marginTop: 16,
+                color: colors.primary,
+                textDecorationLine: "underline",
+              }}
+              onPress={handleErrorAction}
+            >
+              {error.actionLabel}
+            </ThemedText>
+          ) : null}
         </View>
       ) : (
         <ScrollView
@@ -259,6 +331,15 @@ export default function HikmahScreen() {
           refreshControl={
             <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
           }
+          onLayout={({ nativeEvent }) => {
+            viewportRef.current = {
+              ...viewportRef.current,
+              height: nativeEvent.layout.height,
+            };
+            prioritizeVisibleTrees();
+          }}
+          onScroll={handleScroll}
+          scrollEventThrottle={200}
         >
           {filtered.length === 0 && filteredComingSoon.length === 0 ? (
             <View style={styles.emptyState}>
@@ -269,7 +350,9 @@ export default function HikmahScreen() {
           ) : (
             <>
               {filtered.map((tree) => (
-                <TreeCard key={tree.id} tree={tree} />
+                <View key={tree.id} onLayout={handleCardLayout(tree.id)}>
+                  <TreeCard tree={tree} />
+                </View>
               ))}
               {filteredComingSoon.map((course) => (
                 <ComingSoonCard key={course.id} title={course.title} />
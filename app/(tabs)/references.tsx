@@ -15,7 +15,9 @@ import { BlurView } from "expo-blur";
 import { Colors } from "@/constants/theme";
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import { searchReferences } from "@/utils/api";
-import { ERROR_MESSAGES } from "@/utils/constants";
+import { describeError, type ErrorDescription } from "@/utils/errorMessages";
+import type { ReferenceResults } from "@/utils/references";
+import { useAuth } from "@/hooks/useAuth";
 import ReferencesContainer from "@/components/references/ReferencesContainer";
 import SearchInput from "@/components/references/SearchInput";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
@@ -34,38 +36,51 @@ export default function ReferencesScreen() {
 
   const [query, setQuery] = useState("");
   const [submittedQuery, setSubmittedQuery] = useState("");
-  const [results, setResults] = useState<any>(null);
+  const [results, setResults] = useState<ReferenceResults | null>(null);
+  const [error, setError] = useState<ErrorDescription | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [searchPerformed, setSearchPerformed] = useState(false);
   const [headerHeight, setHeaderHeight] = useState(0);
+  const { signOut } = useAuth();
 
-  const handleSearch = async () => {
-    if (!query.trim()) return;
-
-    console.log(`🔍 User searching: "${query.substring(0, 50)}..."`);
+  const runSearch = async (searchQuery: string) => {
+    console.log(`🔍 User searching: "${searchQuery.substring(0, 50)}..."`);
 
     // Dismiss keyboard after search
     Keyboard.dismiss();
 
-    setSubmittedQuery(query);
+    setSubmittedQuery(searchQuery);
     setSearchPerformed(true);
     setIsLoading(true);
     setResults(null);
+    setError(null);
 
     try {
-      const data = await searchReferences(query);
-      setResults(data.response);
+      const data = await searchReferences(searchQuery);
+      setResults(data.response ?? null);
       console.log(`✅ Reference search completed successfully`);
-    } catch (error) {
-      console.error("❌ Reference search failed:", error);
-      setResults({
-        error: ERROR_MESSAGES.REFERENCES_FAILED,
-      });
+    } catch (err) {
+      console.error("❌ Reference search failed:", err);
+      setError(describeError(err));
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleSearch = () => {
+    if (!query.trim()) return;
+    runSearch(query);
+  };
+
+  const handleErrorAction = () => {
+    if (error?.action === "retry" && submittedQuery) {
+      runSearch(submittedQuery);
+    } else if (error?.action === "signIn") {
+      // Clearing the stale session sends the user to the login screen
+      signOut();
+    }
+  };
+
   const headerPaddingTop = Math.max(
     insets.top + 12,
     Platform.OS === "ios" ? 64 : 32
@@ -117,6 +132,8 @@ export default function ReferencesScreen() {
         <View style={styles.content}>
           <ReferencesContainer
             results={results}
+            error={error}
+            onErrorAction={handleErrorAction}
             isLoading={isLoading}
             searchPerformed={searchPerformed}
             submittedQuery={submittedQuery}
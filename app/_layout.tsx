@@ -17,13 +17,17 @@ import {
   Montserrat_700Bold,
 } from "@expo-google-fonts/montserrat";
 import * as SplashScreen from "expo-splash-screen";
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 
 import {
   ThemeProvider,
   useThemePreference,
 } from "@/hooks/use-theme-preference";
 import { AuthProvider, useAuth } from "@/hooks/useAuth";
+import OfflineBanner from "@/components/ui/OfflineBanner";
+import { startConnectivityMonitor } from "@/utils/connectivity";
+import { startDeferredWriteSync } from "@/utils/deferredWrites";
+import { loadApiEnvironment } from "@/utils/apiEnvironment";
 
 // Keep the splash screen visible while we fetch resources
 SplashScreen.preventAutoHideAsync();
@@ -50,6 +54,14 @@ function RootNavigator() {
     }
   }, [status, segments, router]);
 
+  useEffect(() => startConnectivityMonitor(), []);
+
+  // Queued writes need a session, so only sync while signed in
+  useEffect(() => {
+    if (status !== "signedIn") return;
+    return startDeferredWriteSync();
+  }, [status]);
+
   return (
     <NavigationThemeProvider
       value={colorScheme === "dark" ? DarkTheme : DefaultTheme}
@@ -65,7 +77,12 @@ function RootNavigator() {
           name="feedback"
           options={{ presentation: "modal", title: "Feedback" }}
         />
+        <Stack.Screen
+          name="diagnostics"
+          options={{ presentation: "modal", title: "Diagnostics" }}
+        />
       </Stack>
+      <OfflineBanner />
       <StatusBar style="auto" />
     </NavigationThemeProvider>
   );
@@ -78,14 +95,20 @@ export default function RootLayout() {
     Montserrat_600SemiBold,
     Montserrat_700Bold,
   });
+  // Requests (including the auth restore) must use the tester-selected backend
+  const [environmentReady, setEnvironmentReady] = useState(false);
+
+  useEffect(() => {
+    loadApiEnvironment().finally(() => setEnvironmentReady(true));
+  }, []);
 
   useEffect(() => {
-    if (loaded || error) {
+    if ((loaded || error) && environmentReady) {
       SplashScreen.hideAsync();
     }
-  }, [loaded, error]);
+  }, [loaded, error, environmentReady]);
 
-  if (!loaded && !error) {
+  if ((!loaded && !error) || !environmentReady) {
     return null;
   }
 
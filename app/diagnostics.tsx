@@ -0,0 +1,273 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  Alert,
+  FlatList,
+  Share,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { ThemedText } from "@/components/themed-text";
+import { Colors } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import {
+  LOG_CATEGORIES,
+  LOG_LEVELS,
+  LogCategory,
+  LogEntry,
+  LogLevel,
+  clearLogs,
+  formatLogs,
+  getLogs,
+  subscribeLogs,
+} from "@/utils/logger";
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  debug: "#94a3b8",
+  info: "#3b82f6",
+  warn: "#f59e0b",
+  error: "#ef4444",
+};
+
+export default function DiagnosticsScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme];
+  const [entries, setEntries] = useState<LogEntry[]>([]);
+  const [minLevel, setMinLevel] = useState<LogLevel>("debug");
+  const [category, setCategory] = useState<LogCategory | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getLogs().then((logs) => {
+      if (!cancelled) setEntries(logs);
+    });
+    const unsubscribe = subscribeLogs(setEntries);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  // Newest first; the level filter keeps that level and anything more severe
+  const visible = useMemo(() => {
+    const minRank = LOG_LEVELS.indexOf(minLevel);
+    return entries
+      .filter(
+        (entry) =>
+          LOG_LEVELS.indexOf(entry.level) >= minRank &&
+          (!category || entry.category === category)
+      )
+      .reverse();
+  }, [entries, minLevel, category]);
+
+  const handleShare = async () => {
+    try {
+      // Share oldest first so the report reads top to bottom
+      await Share.share({
+        title: "Deen diagnostics",
+        message: formatLogs(visible.slice().reverse()),
+      });
+    } catch {
+      Alert.alert("Error", "Unable to share logs.", [{ text: "OK" }]);
+    }
+  };
+
+  const handleClear = () => {
+    Alert.alert("Clear logs?", "This removes all saved log entries.", [
+      { text: "Cancel", style: "cancel" },
+      { text: "Clear", style: "destructive", onPress: () => clearLogs() },
+    ]);
+  };
+
+  const renderChip = (
+    key: string,
+    label: string,
+    selected: boolean,
+    onPress: () => void
+  ) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      activeOpacity={0.7}
+      style={[
+        styles.chip,
+        {
+          backgroundColor: selected ? colors.primary : colors.panel,
+          borderColor: selected ? colors.primary : colors.border,
+        },
+      ]}
+    >
+      <ThemedText
+        style={[styles.chipText, { color: selected ? "#fff" : colors.text }]}
+      >
+        {label}
+      </ThemedText>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={{ flex: 1, backgroundColor: colors.background }}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={[
+            styles.iconButton,
+            { backgroundColor: colors.panel, borderColor: colors.border },
+          ]}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="chevron-back" size={20} color={colors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            onPress={handleClear}
+            style={[
+              styles.iconButton,
+              { backgroundColor: colors.panel, borderColor: colors.border },
+            ]}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="trash-outline" size={18} color={colors.text} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={handleShare}
+            disabled={visible.length === 0}
+            style={[
+              styles.iconButton,
+              {
+                backgroundColor: colors.panel,
+                borderColor: colors.border,
+                opacity: visible.length === 0 ? 0.5 : 1,
+              },
+            ]}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="share-outline" size={18} color={colors.text} />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <View style={styles.filters}>
+        <View style={styles.chipRow}>
+          {LOG_LEVELS.map((level) =>
+            renderChip(level, level, minLevel === level, () =>
+              setMinLevel(level)
+            )
+          )}
+        </View>
+        <View style={styles.chipRow}>
+          {renderChip("all", "all", category === null, () => setCategory(null))}
+          {LOG_CATEGORIES.map((item) =>
+            renderChip(item, item, category === item, () => setCategory(item))
+          )}
+        </View>
+      </View>
+
+      <FlatList
+        data={visible}
+        keyExtractor={(entry) => String(entry.id)}
+        contentContainerStyle={styles.listContent}
+        ListEmptyComponent={
+          <ThemedText style={[styles.emptyText, { color: colors.textSecondary }]}>
+            No log entries match these filters.
+          </ThemedText>
+        }
+        renderItem={({ item }) => (
+          <View style={[styles.entry, { borderColor: colors.border }]}>
+            <View style={styles.entryMeta}>
+              <ThemedText
+                style={[styles.entryLevel, { color: LEVEL_COLORS[item.level] }]}
+              >
+                {item.level.toUpperCase()}
+              </ThemedText>
+              <ThemedText
+                style={[styles.entryMetaText, { color: colors.textSecondary }]}
+              >
+                {item.category} · {new Date(item.timestamp).toLocaleString()}
+              </ThemedText>
+            </View>
+            <ThemedText style={styles.entryMessage} selectable>
+              {item.message}
+            </ThemedText>
+          </View>
+        )}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+  headerActions: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  iconButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  filters: {
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+    gap: 8,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    borderRadius: 999,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  listContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: "center",
+    marginTop: 32,
+  },
+  entry: {
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  entryMeta: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 4,
+  },
+  entryLevel: {
+    fontSize: 11,
+    fontWeight: "700",
+  },
+  entryMetaText: {
+    fontSize: 11,
+  },
+  entryMessage: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+});
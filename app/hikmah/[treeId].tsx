@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useMemo } from "react";
+import React, { useState, useMemo } from "react";
 import {
   StyleSheet,
   View,
@@ -14,13 +14,12 @@ import { ThemedView } from "@/components/themed-view";
 import { ThemedText } from "@/components/themed-text";
 import { Colors } from "@/constants/theme";
 import { useColorScheme } from "@/hooks/use-color-scheme";
-import {
-  getHikmahTree,
-  getLessonsByTreeId,
-  HikmahTree,
-  Lesson,
-} from "@/utils/api";
+import { hikmahTreeQuery, lessonsByTreeQuery } from "@/utils/hikmahQueries";
+import { useQuery } from "@/hooks/useQuery";
 import { useHikmahProgress } from "@/hooks/useHikmahProgress";
+import { useAuth } from "@/hooks/useAuth";
+import { describeError } from "@/utils/errorMessages";
+import OfflineNotice from "@/components/hikmah/OfflineNotice";
 import { BlurView } from "expo-blur";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 
@@ -30,47 +29,31 @@ export default function TreeDetailScreen() {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme];
   const insets = useSafeAreaInsets();
+  const { signOut } = useAuth();
 
-  const [tree, setTree] = useState<HikmahTree | null>(null);
-  const [lessons, setLessons] = useState<Lesson[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState("");
   const [isSummaryExpanded, setIsSummaryExpanded] = useState(false);
   const [headerHeight, setHeaderHeight] = useState(0);
 
-  useEffect(() => {
-    let mounted = true;
-    setLoading(true);
-    setError("");
-
-    if (!treeId) return;
+  const treeQuery = useQuery(treeId ? hikmahTreeQuery(treeId) : null);
+  const lessonsQuery = useQuery(treeId ? lessonsByTreeQuery(treeId) : null);
+  const tree = treeQuery.data ?? null;
+  const lessons = useMemo(() => lessonsQuery.data ?? [], [lessonsQuery.data]);
+  const loading = treeQuery.isLoading || lessonsQuery.isLoading;
+  const queryError = treeQuery.error ?? lessonsQuery.error;
+  const error = queryError ? describeError(queryError) : null;
+  const isOffline =
+    treeQuery.offlineSavedAt !== undefined ||
+    lessonsQuery.offlineSavedAt !== undefined;
 
-    Promise.all([
-      getHikmahTree(treeId),
-      getLessonsByTreeId(Number(treeId), {
-        order_by: "order_position",
-        limit: 200,
-      }),
-    ])
-      .then(([t, ls]) => {
-        if (!mounted) return;
-        setTree(t);
-        setLessons(Array.isArray(ls) ? ls : []);
-      })
-      .catch((err) => {
-        if (!mounted) return;
-        console.error("Failed to load tree details:", err);
-        setError(err?.message || "Failed to load tree details.");
-      })
-      .finally(() => {
-        if (!mounted) return;
-        setLoading(false);
-      });
-
-    return () => {
-      mounted = false;
-    };
-  }, [treeId]);
+  const handleErrorAction = () => {
+    if (error?.action === "signIn") {
+      // Clearing the stale session sends the user to the login screen
+      signOut();
+      return;
+    }
+    if (treeQuery.error) treeQuery.refetch();
+    if (lessonsQuery.error) lessonsQuery.refetch();
+  };
 
   const sortedLessons = useMemo(() => {
     return lessons
@@ -107,7 +90,29 @@ export default function TreeDetailScreen() {
       <ThemedView style={styles.container}>
         <Stack.Screen options={{ headerShown: false }} />
         <View style={[styles.center, { paddingTop: headerPaddingTop }]}>
-          <ActivityIndicator size="large" color={colors.primary} />
+          {!loading && error ? (
+            <>
+              <ThemedText
+                style={{ color: colors.textSecondary, textAlign: "center" }}
+              >
+                {error.message}
+              </ThemedText>
+              {error.actionLabel ? (
+                <ThemedText
+                  style={{
+                    marginTop: 16,
+                    color: colors.primary,
+                    textDecorationLine: "underline",
+                  }}
+                  onPress={handleErrorAction}
+                >
+                  {error.actionLabel}
+                </ThemedText>
+              ) : null}
+            </>
+          ) : (
+            <ActivityIndicator size="large" color={colors.primary} />
+          )}
         </View>
       </ThemedView>
     );
@@ -169,6 +174,17 @@ export default function TreeDetailScreen() {
           { paddingTop: contentTopOffset },
         ]}
       >
+        {isOffline && (
+          <OfflineNotice
+            savedAt={treeQuery.offlineSavedAt ?? lessonsQuery.offlineSavedAt}
+            onRetry={() => {
+              treeQuery.refetch();
+              lessonsQuery.refetch();
+            }}
+            style={styles.offlineNotice}
+          />
+        )}
+
         {/* Hero / Summary Card */}
         <View
           style={[
@@ -211,6 +227,16 @@ export default function TreeDetailScreen() {
                 {total} lessons
               </ThemedText>
             </View>
+            <TouchableOpacity
+              style={styles.metaItem}
+              onPress={() => router.push(`/hikmah/glossary/${tree.id}`)}
+              activeOpacity={0.7}
+            >
+              <Ionicons name="book-outline" size={16} color={colors.primary} />
+              <ThemedText style={{ color: colors.primary, fontSize: 12 }}>
+                Glossary
+              </ThemedText>
+            </TouchableOpacity>
             {completedCount > 0 && (
               <View style={styles.metaItem}>
                 <Ionicons
@@ -387,6 +413,9 @@ const styles = StyleSheet.create({
     padding: 20,
     paddingBottom: 40,
   },
+  offlineNotice: {
+    marginBottom: 16,
+  },
   heroCard: {
     borderRadius: 20,
     padding: 24,
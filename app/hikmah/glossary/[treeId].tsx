@@ -0,0 +1,297 @@
+import React, { useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  SectionList,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { useLocalSearchParams, useRouter, Stack } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { ThemedView } from "@/components/themed-view";
+import { ThemedText } from "@/components/themed-text";
+import { Colors } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { hikmahTreeQuery, lessonsByTreeQuery } from "@/utils/hikmahQueries";
+import { useQuery } from "@/hooks/useQuery";
+import { useTreeGlossary } from "@/hooks/useTreeGlossary";
+import { describeError } from "@/utils/errorMessages";
+import { TreeGlossaryEntry } from "@/utils/glossary";
+
+/** Group entries under their first letter ("#" for anything else) */
+function toSections(entries: TreeGlossaryEntry[]) {
+  const sections: { title: string; data: TreeGlossaryEntry[] }[] = [];
+  entries.forEach((entry) => {
+    const first = entry.term.charAt(0).toUpperCase();
+    const title = /\p{L}/u.test(first) ? first : "#";
+    const last = sections[sections.length - 1];
+    if (last?.title === title) {
+      last.data.push(entry);
+    } else {
+      sections.push({ title, data: [entry] });
+    }
+  });
+  return sections;
+}
+
+export default function TreeGlossaryScreen() {
+  const { treeId } = useLocalSearchParams<{ treeId: string }>();
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme];
+  const [search, setSearch] = useState("");
+
+  const treeQuery = useQuery(treeId ? hikmahTreeQuery(treeId) : null);
+  const lessonsQuery = useQuery(treeId ? lessonsByTreeQuery(treeId) : null);
+  const lessons = useMemo(() => lessonsQuery.data ?? [], [lessonsQuery.data]);
+  const { entries, loading, missingCount } = useTreeGlossary(lessons);
+  const queryError = treeQuery.error ?? lessonsQuery.error;
+  const error = queryError ? describeError(queryError) : null;
+
+  const sections = useMemo(() => {
+    const needle = search.trim().toLowerCase();
+    const filtered = needle
+      ? entries.filter(
+          (entry) =>
+            entry.term.toLowerCase().includes(needle) ||
+            entry.definition.toLowerCase().includes(needle)
+        )
+      : entries;
+    return toSections(filtered);
+  }, [entries, search]);
+
+  const isLoading = lessonsQuery.isLoading || loading;
+
+  return (
+    <ThemedView style={styles.container}>
+      <Stack.Screen options={{ headerShown: false }} />
+
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={[styles.iconButton, { backgroundColor: colors.panel }]}
+        >
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+
+        <View style={styles.headerContent}>
+          <ThemedText type="defaultSemiBold" numberOfLines={1}>
+            Glossary
+          </ThemedText>
+          {treeQuery.data ? (
+            <ThemedText
+              style={{ fontSize: 10, color: colors.textSecondary }}
+              numberOfLines={1}
+            >
+              {treeQuery.data.title}
+            </ThemedText>
+          ) : null}
+        </View>
+
+        <View style={{ width: 40 }} />
+      </View>
+
+      {isLoading ? (
+        <View style={styles.center}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : error ? (
+        <View style={styles.center}>
+          <ThemedText style={{ color: colors.textSecondary, textAlign: "center" }}>
+            {error.message}
+          </ThemedText>
+        </View>
+      ) : (
+        <SectionList
+          sections={sections}
+          keyExtractor={(item) => item.term}
+          stickySectionHeadersEnabled={false}
+          keyboardShouldPersistTaps="handled"
+          contentContainerStyle={styles.listContent}
+          ListHeaderComponent={
+            <View style={styles.listHeader}>
+              <TextInput
+                value={search}
+                onChangeText={setSearch}
+                placeholder="Search terms"
+                placeholderTextColor={colors.textSecondary}
+                autoCapitalize="none"
+                autoCorrect={false}
+                clearButtonMode="while-editing"
+                style={[
+                  styles.searchInput,
+                  {
+                    color: colors.text,
+                    backgroundColor: colors.panel,
+                    borderColor: colors.border,
+                  },
+                ]}
+              />
+              {missingCount > 0 ? (
+                <ThemedText
+                  style={[styles.noteText, { color: colors.textSecondary }]}
+                >
+                  Terms from {missingCount}{" "}
+                  {missingCount === 1 ? "lesson" : "lessons"} could not be
+                  loaded.
+                </ThemedText>
+              ) : null}
+            </View>
+          }
+          ListEmptyComponent={
+            <ThemedText
+              style={[styles.emptyText, { color: colors.textSecondary }]}
+            >
+              {search.trim()
+                ? "No terms match your search."
+                : "No glossary terms for this tree yet."}
+            </ThemedText>
+          }
+          renderSectionHeader={({ section }) => (
+            <ThemedText style={[styles.sectionTitle, { color: colors.primary }]}>
+              {section.title}
+            </ThemedText>
+          )}
+          renderItem={({ item }) => (
+            <View
+              style={[
+                styles.entry,
+                { backgroundColor: colors.panel, borderColor: colors.border },
+              ]}
+            >
+              <ThemedText type="defaultSemiBold" style={styles.term}>
+                {item.term}
+              </ThemedText>
+              <ThemedText
+                style={[styles.definition, { color: colors.textSecondary }]}
+              >
+                {item.definition}
+              </ThemedText>
+              <View style={styles.lessonLinks}>
+                {item.lessons.map((lesson) => (
+                  <TouchableOpacity
+                    key={lesson.id}
+                    onPress={() =>
+                      router.push(`/hikmah/lesson/${lesson.id}?treeId=${treeId}`)
+                    }
+                    style={[styles.lessonChip, { borderColor: colors.border }]}
+                    activeOpacity={0.7}
+                  >
+                    <Ionicons
+                      name="document-text-outline"
+                      size={12}
+                      color={colors.primary}
+                    />
+                    <ThemedText
+                      style={[styles.lessonChipText, { color: colors.primary }]}
+                      numberOfLines={1}
+                    >
+                      {lesson.title}
+                    </ThemedText>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          )}
+        />
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  center: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+  },
+  header: {
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    borderBottomWidth: 1,
+    zIndex: 10,
+  },
+  iconButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  headerContent: {
+    flex: 1,
+    alignItems: "center",
+    marginHorizontal: 12,
+  },
+  listContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  listHeader: {
+    gap: 8,
+    marginBottom: 8,
+  },
+  searchInput: {
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 15,
+  },
+  noteText: {
+    fontSize: 12,
+  },
+  emptyText: {
+    textAlign: "center",
+    marginTop: 32,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "700",
+    letterSpacing: 1,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  entry: {
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: 14,
+    marginBottom: 10,
+    gap: 4,
+  },
+  term: {
+    fontSize: 16,
+  },
+  definition: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  lessonLinks: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+    marginTop: 6,
+  },
+  lessonChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    maxWidth: "100%",
+  },
+  lessonChipText: {
+    fontSize: 12,
+  },
+});
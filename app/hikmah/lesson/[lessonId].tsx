@@ -13,24 +13,26 @@ import { ThemedText } from "@/components/themed-text";
 import { Colors } from "@/constants/theme";
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import {
-  getLessonById,
-  getHikmahTree,
-  getLessonContent,
-  getLessonsByTreeId,
-  getBaselinePrimer,
-  upsertUserProgress,
+  saveUserProgress,
   listUserProgress,
-  streamPersonalizedPrimer,
-  HikmahTree,
-  Lesson,
-  LessonContent,
 } from "@/utils/api";
+import {
+  baselinePrimerQuery,
+  hikmahTreeQuery,
+  lessonContentQuery,
+  lessonQuery,
+  lessonsByTreeQuery,
+} from "@/utils/hikmahQueries";
+import { useQuery } from "@/hooks/useQuery";
 import { setLastRead } from "@/utils/hikmahStorage";
 import ElaborationModal from "@/components/hikmah/ElaborationModal";
 import { useHikmahProgress } from "@/hooks/useHikmahProgress";
+import { usePersonalizedPrimer } from "@/hooks/usePersonalizedPrimer";
 import LessonContentWebView from "@/components/hikmah/LessonContentWebView";
 import LessonPrimerPage from "@/components/hikmah/LessonPrimerPage";
 import { useAuth } from "@/hooks/useAuth";
+import { describeError } from "@/utils/errorMessages";
+import OfflineNotice from "@/components/hikmah/OfflineNotice";
 
 export default function LessonReaderScreen() {
   const { lessonId, treeId } = useLocalSearchParams<{
@@ -40,27 +42,10 @@ export default function LessonReaderScreen() {
   const router = useRouter();
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme];
-  const { user } = useAuth();
+  const { user, signOut } = useAuth();
   const userId = user?.email || user?.sub;
 
-  const [lesson, setLesson] = useState<Lesson | null>(null);
-  const [tree, setTree] = useState<HikmahTree | null>(null);
-  const [lessons, setLessons] = useState<Lesson[]>([]); // Full list for navigation
-  const [pages, setPages] = useState<LessonContent[]>([]);
   const [currentPageIndex, setCurrentPageIndex] = useState(0);
-  const [baselinePrimerBullets, setBaselinePrimerBullets] = useState<string[]>(
-    []
-  );
-  const [baselinePrimerLoading, setBaselinePrimerLoading] = useState(false);
-  const [personalizedPrimerBullets, setPersonalizedPrimerBullets] = useState<
-    string[]
-  >([]);
-  const [personalizedPrimerLoading, setPersonalizedPrimerLoading] =
-    useState(false);
-  const [personalizedPrimerUnavailable, setPersonalizedPrimerUnavailable] =
-    useState(false);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState("");
   const [modalVisible, setModalVisible] = useState(false);
 
   // Selection State
@@ -71,139 +56,57 @@ export default function LessonReaderScreen() {
   // Prevent hydration from overwriting manual toggles
   const pageUpsertSkipRef = useRef(false);
   const skipCompletionSyncRef = useRef(false);
-  const personalizedPrimerAbortRef = useRef<AbortController | null>(null);
 
-  // Load Data
+  // Load Data (shared cache: the tree and lesson list are usually warm already)
+  const lessonResult = useQuery(lessonId ? lessonQuery(lessonId) : null);
+  const treeResult = useQuery(treeId ? hikmahTreeQuery(treeId) : null);
+  const lessonsResult = useQuery(treeId ? lessonsByTreeQuery(treeId) : null);
+  const contentResult = useQuery(lessonId ? lessonContentQuery(lessonId) : null);
+  const queryResults = [lessonResult, treeResult, lessonsResult, contentResult];
+  // Baseline primer is optional: its failures never block the reader
+  const baselinePrimerResult = useQuery(
+    lessonId && Number.isFinite(Number(lessonId))
+      ? baselinePrimerQuery(lessonId)
+      : null
+  );
+  const baselinePrimerBullets = useMemo(
+    () => baselinePrimerResult.data?.baseline_bullets ?? [],
+    [baselinePrimerResult.data]
+  );
+  const baselinePrimerLoading = baselinePrimerResult.isLoading;
+  // Offline copies saved before glossaries were kept have none
+  const glossary = baselinePrimerResult.data?.glossary;
+
+  const lesson = lessonResult.data ?? null;
+  const tree = treeResult.data ?? null;
+  const lessons = useMemo(() => lessonsResult.data ?? [], [lessonsResult.data]); // Full list for navigation
+  const pages = useMemo(
+    () =>
+      (contentResult.data ?? [])
+        .slice()
+        .sort((a, b) => a.order_position - b.order_position),
+    [contentResult.data]
+  );
+  const loading = queryResults.some((q) => q.isLoading);
+  const queryError = queryResults.find((q) => q.error)?.error;
+  const error = queryError ? describeError(queryError) : null;
+  const offlineSavedAt = [...queryResults, baselinePrimerResult]
+    .map((q) => q.offlineSavedAt)
+    .find((savedAt) => savedAt !== undefined);
+  const isOffline = offlineSavedAt !== undefined;
+
+  // Start each lesson on its first page
   useEffect(() => {
-    let mounted = true;
-    setLoading(true);
-    setError("");
-
-    if (!lessonId || !treeId) return;
-
-    Promise.all([
-      getLessonById(lessonId),
-      getHikmahTree(treeId),
-      getLessonsByTreeId(Number(treeId), { limit: 200 }),
-      getLessonContent(Number(lessonId), { limit: 500 }),
-    ])
-      .then(([lsn, tr, ls, content]) => {
-        if (!mounted) return;
-        setLesson(lsn);
-        setTree(tr);
-        setLessons(Array.isArray(ls) ? ls : []);
-        const sortedPages = Array.isArray(content)
-          ? content.slice().sort((a, b) => a.order_position - b.order_position)
-          : [];
-        setPages(sortedPages);
-        setCurrentPageIndex(0);
-
-        setLastRead(treeId, lessonId);
-      })
-      .catch((err) => {
-        if (!mounted) return;
-        console.error("Failed to load lesson content:", err);
-        setError(err?.message || "Failed to load lesson content.");
-      })
-      .finally(() => {
-        if (!mounted) return;
-        setLoading(false);
-      });
+    setCurrentPageIndex(0);
+  }, [lessonId]);
 
-    return () => {
-      mounted = false;
-    };
-  }, [lessonId, treeId]);
-
-  // Load baseline + personalized primers for lesson page 1
   useEffect(() => {
-    if (!lessonId) return;
-
-    const parsedLessonId = Number(lessonId);
-    if (!Number.isFinite(parsedLessonId)) return;
-
-    let mounted = true;
-    personalizedPrimerAbortRef.current?.abort();
-    personalizedPrimerAbortRef.current = null;
-
-    setBaselinePrimerBullets([]);
-    setBaselinePrimerLoading(true);
-    setPersonalizedPrimerBullets([]);
-    setPersonalizedPrimerLoading(Boolean(userId));
-    setPersonalizedPrimerUnavailable(!userId);
-
-    getBaselinePrimer(parsedLessonId)
-      .then((data) => {
-        if (!mounted) return;
-        setBaselinePrimerBullets(data?.baseline_bullets ?? []);
-      })
-      .catch((err) => {
-        if (!mounted) return;
-        console.warn("Baseline primer fetch failed:", err);
-      })
-      .finally(() => {
-        if (!mounted) return;
-        setBaselinePrimerLoading(false);
-      });
-
-    if (!userId) {
-      setPersonalizedPrimerLoading(false);
-      setPersonalizedPrimerUnavailable(true);
-      return () => {
-        mounted = false;
-      };
-    }
+    if (!lessonId || !treeId || !lesson) return;
+    setLastRead(treeId, lessonId);
+  }, [lessonId, treeId, lesson]);
 
-    const abortController = new AbortController();
-    personalizedPrimerAbortRef.current = abortController;
-    let receivedBullet = false;
-    let metadataAvailable: boolean | undefined = undefined;
-    let hasError = false;
-
-    streamPersonalizedPrimer(
-      {
-        user_id: userId,
-        lesson_id: parsedLessonId,
-        filter: true,
-      },
-      {
-        onBullet: ({ content }) => {
-          if (!mounted) return;
-          const cleaned = content.trim();
-          if (!cleaned) return;
-          receivedBullet = true;
-          setPersonalizedPrimerBullets((prev) =>
-            prev.includes(cleaned) ? prev : [...prev, cleaned]
-          );
-        },
-        onMetadata: (metadata) => {
-          metadataAvailable = metadata.personalized_available;
-        },
-        onError: () => {
-          hasError = true;
-        },
-      },
-      { signal: abortController.signal }
-    )
-      .catch((err) => {
-        if (!mounted) return;
-        if (err?.message === "aborted") return;
-        hasError = true;
-        console.warn("Personalized primer stream failed:", err);
-      })
-      .finally(() => {
-        if (!mounted) return;
-        const unavailable =
-          hasError || metadataAvailable === false || !receivedBullet;
-        setPersonalizedPrimerUnavailable(unavailable);
-        setPersonalizedPrimerLoading(false);
-      });
-
-    return () => {
-      mounted = false;
-      abortController.abort();
-    };
-  }, [lessonId, userId]);
+  // Personalized primer for lesson page 1 (baseline comes from the cache)
+  const personalizedPrimer = usePersonalizedPrimer(lessonId, userId);
 
   // Sort lessons for next/prev logic
   const sortedLessons = useMemo(() => {
@@ -340,7 +243,7 @@ export default function LessonReaderScreen() {
       return;
     }
 
-    upsertUserProgress({
+    saveUserProgress({
       user_id: userId,
       hikmah_tree_id: Number(treeId),
       lesson_id: Number(lessonId),
@@ -377,7 +280,7 @@ export default function LessonReaderScreen() {
 
     try {
       // Optimistic upsert
-      upsertUserProgress({
+      saveUserProgress({
         user_id: userId,
         hikmah_tree_id: Number(treeId),
         lesson_id: Number(lessonId),
@@ -397,6 +300,17 @@ export default function LessonReaderScreen() {
     }
   };
 
+  const handleErrorAction = () => {
+    if (error?.action === "signIn") {
+      // Clearing the stale session sends the user to the login screen
+      signOut();
+      return;
+    }
+    queryResults.forEach((q) => {
+      if (q.error) q.refetch();
+    });
+  };
+
   if (loading || !lesson || !tree) {
     return (
       <ThemedView style={styles.container}>
@@ -405,9 +319,25 @@ export default function LessonReaderScreen() {
           {loading ? (
             <ActivityIndicator size="large" color={colors.primary} />
           ) : (
-            <ThemedText style={{ color: colors.textSecondary }}>
-              {error || "Unable to load lesson."}
-            </ThemedText>
+            <>
+              <ThemedText
+                style={{ color: colors.textSecondary, textAlign: "center" }}
+              >
+                {error?.message || "Unable to load lesson."}
+              </ThemedText>
+              {error?.actionLabel ? (
+                <ThemedText
+                  style={{
+                    marginTop: 16,
+                    color: colors.primary,
+                    textDecorationLine: "underline",
+                  }}
+                  onPress={handleErrorAction}
+                >
+                  {error.actionLabel}
+                </ThemedText>
+              ) : null}
+            </>
           )}
         </View>
       </ThemedView>
@@ -448,15 +378,35 @@ export default function LessonReaderScreen() {
         <View style={{ width: 40 }} />
       </View>
 
+      {isOffline && (
+        <OfflineNotice
+          savedAt={offlineSavedAt}
+          onRetry={() =>
+            [...queryResults, baselinePrimerResult].forEach((q) => q.refetch())
+          }
+          style={styles.offlineNotice}
+        />
+      )}
+
       {/* Content Area - Using WebView for content */}
       <View style={styles.contentContainer}>
         {isPrimerPage ? (
           <LessonPrimerPage
             lessonTitle={lesson.title}
             baselineBullets={baselinePrimerBullets}
-            personalizedBullets={personalizedPrimerBullets}
-            personalizedLoading={personalizedPrimerLoading}
-            personalizedUnavailable={personalizedPrimerUnavailable}
+            glossary={glossary}
+            personalizedBullets={personalizedPrimer.bullets}
+            personalizedStatus={personalizedPrimer.status}
+            personalizedMetadata={personalizedPrimer.metadata}
+            personalizedLoading={personalizedPrimer.loading}
+            personalizedUnavailable={personalizedPrimer.unavailable}
+            onRefreshPersonalized={
+              userId ? () => personalizedPrimer.refresh() : undefined
+            }
+            canRefreshPersonalized={personalizedPrimer.canRefresh}
+            personalizedRefreshAvailableAt={
+              personalizedPrimer.refreshAvailableAt
+            }
             onStartLesson={() =>
               setCurrentPageIndex(totalPages > 1 ? 1 : 0)
             }
@@ -464,6 +414,7 @@ export default function LessonReaderScreen() {
         ) : currentPage ? (
           <LessonContentWebView
             markdown={currentPage.content_body}
+            glossary={glossary}
             onSelectionChange={setSelection}
           />
         ) : (
@@ -501,7 +452,7 @@ export default function LessonReaderScreen() {
                   if (!userId) return;
                   skipCompletionSyncRef.current = true;
                   toggleComplete(lessonId!);
-                  upsertUserProgress({
+                  saveUserProgress({
                     user_id: userId,
                     hikmah_tree_id: Number(treeId),
                     lesson_id: Number(lessonId),
@@ -649,6 +600,10 @@ const styles = StyleSheet.create({
     alignItems: "center",
     marginHorizontal: 12,
   },
+  offlineNotice: {
+    marginHorizontal: 16,
+    marginTop: 8,
+  },
   contentContainer: {
     flex: 1,
     // Remove padding here, handle in WebView CSS
@@ -8,6 +8,11 @@ import { ThemedView } from "@/components/themed-view";
 import { ThemedText } from "@/components/themed-text";
 import { Colors } from "@/constants/theme";
 import { useColorScheme } from "@/hooks/use-color-scheme";
+import DeveloperSection from "@/components/settings/DeveloperSection";
+import { getApiEnvironmentSelection } from "@/utils/apiEnvironment";
+
+// Taps on the Diagnostics title that reveal the developer section
+const DEVELOPER_UNLOCK_TAPS = 7;
 
 export default function SettingsScreen() {
   const router = useRouter();
@@ -17,6 +22,12 @@ export default function SettingsScreen() {
   const colors = Colors[colorScheme];
   const [authError, setAuthError] = React.useState<string | null>(null);
   const [authBusy, setAuthBusy] = React.useState(false);
+  const [unlockTaps, setUnlockTaps] = React.useState(0);
+  // Always visible in dev, or while a non-default backend is active
+  const showDeveloper =
+    __DEV__ ||
+    unlockTaps >= DEVELOPER_UNLOCK_TAPS ||
+    getApiEnvironmentSelection() !== null;
 
   const themeOptions = [
     {
@@ -179,6 +190,33 @@ export default function SettingsScreen() {
             </TouchableOpacity>
           </View>
         </ThemedView>
+
+        <ThemedView style={styles.section}>
+          <ThemedText
+            type="subtitle"
+            style={styles.sectionTitle}
+            onPress={() => setUnlockTaps((taps) => taps + 1)}
+            suppressHighlighting
+          >
+            Diagnostics
+          </ThemedText>
+          <ThemedText
+            style={[styles.sectionDescription, { color: colors.textSecondary }]}
+          >
+            Recent app logs to attach when reporting a bug. Tokens, emails and
+            account IDs are removed.
+          </ThemedText>
+
+          <TouchableOpacity
+            style={[styles.secondaryButton, { borderColor: colors.border }]}
+            onPress={() => router.push("/diagnostics")}
+            activeOpacity={0.8}
+          >
+            <ThemedText style={styles.secondaryButtonText}>View logs</ThemedText>
+          </TouchableOpacity>
+        </ThemedView>
+
+        {showDeveloper ? <DeveloperSection /> : null}
       </ScrollView>
     </View>
   );
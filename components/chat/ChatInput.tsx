@@ -2,6 +2,7 @@
  * Chat input component
  * Text input with send button and auto-growing functionality (up to 4 lines)
  * ChatGPT-style input field
+ * While an answer streams, the send button turns into a stop button
  */
 
 import React, { useRef } from "react";
@@ -24,6 +25,8 @@ interface ChatInputProps {
   onSubmit: () => void;
   isLoading: boolean;
   placeholder?: string;
+  /** When set, a stop button replaces the send button */
+  onStop?: () => void;
 }
 
 // Height constants
@@ -36,6 +39,7 @@ export default function ChatInput({
   onSubmit,
   isLoading,
   placeholder = PLACEHOLDERS.CHAT,
+  onStop,
 }: ChatInputProps) {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme];
@@ -86,23 +90,35 @@ export default function ChatInput({
           blurOnSubmit={false}
           textAlignVertical="center"
         />
-        <TouchableOpacity
-          style={[
-            styles.sendButton,
-            {
-              backgroundColor: isDisabled ? colors.panel2 : colors.primary,
-            },
-          ]}
-          onPress={handleSubmit}
-          disabled={isDisabled}
-          activeOpacity={0.8}
-        >
-          <Ionicons
-            name="arrow-up"
-            size={20}
-            color={isDisabled ? colors.muted : "#fff"}
-          />
-        </TouchableOpacity>
+        {onStop ? (
+          <TouchableOpacity
+            style={[styles.sendButton, { backgroundColor: colors.primary }]}
+            onPress={onStop}
+            activeOpacity={0.8}
+            accessibilityRole="button"
+            accessibilityLabel="Stop generating"
+          >
+            <Ionicons name="stop" size={16} color="#fff" />
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            style={[
+              styles.sendButton,
+              {
+                backgroundColor: isDisabled ? colors.panel2 : colors.primary,
+              },
+            ]}
+            onPress={handleSubmit}
+            disabled={isDisabled}
+            activeOpacity={0.8}
+          >
+            <Ionicons
+              name="arrow-up"
+              size={20}
+              color={isDisabled ? colors.muted : "#fff"}
+            />
+          </TouchableOpacity>
+        )}
       </BlurView>
     </View>
   );
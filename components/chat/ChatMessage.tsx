@@ -1,33 +1,218 @@
 /**
  * Chat message component
  * Displays individual user or bot messages
+ * Long-press opens the message's action sheet: copy, share, select text,
+ * plus Edit / Regenerate when the chat screen allows them. A bot message
+ * with earlier answers shows a version pager; swipe the answer sideways or
+ * use the arrows to move between versions.
  */
 
-import React, { useState } from "react";
-import { View, StyleSheet, Image, TouchableOpacity } from "react-native";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  Image,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  PanResponder,
+  Pressable,
+  Share,
+} from "react-native";
 import Markdown from "react-native-markdown-display";
+import * as Clipboard from "expo-clipboard";
+import * as Haptics from "expo-haptics";
 import { Ionicons } from "@expo/vector-icons";
 import { ThemedText } from "@/components/themed-text";
 import { Colors } from "@/constants/theme";
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import ReferencesModal from "./ReferencesModal";
-import type { Message } from "@/utils/chatStorage";
+import MessageActionSheet, { MessageAction } from "./MessageActionSheet";
+import MessageReader from "./MessageReader";
+import type { AnswerVersion, Message } from "@/utils/chatStorage";
+import { formatShareText, markdownToPlainText } from "@/utils/messageFormat";
+
+// Horizontal travel that counts as a swipe between answer versions
+const SWIPE_DISTANCE = 50;
+// How long the "Copied" note stays under a message
+const COPIED_NOTE_MS = 2000;
 
 interface ChatMessageProps {
   message: Message;
+  /** Answer text is complete and its references are still streaming in */
+  isGatheringSources?: boolean;
+  /** Optional recovery button shown under a failed bot message */
+  errorAction?: {
+    label: string;
+    icon: React.ComponentProps<typeof Ionicons>["name"];
+    onPress: () => void;
+  };
+  /** Briefly set after jumping to this message from a search */
+  highlighted?: boolean;
+  /** The question a bot message answers, to label versions of other questions */
+  question?: string;
+  /** Long-press action: re-ask the question behind this answer */
+  onRegenerate?: () => void;
+  /** Long-press action: edit this question and ask it again */
+  onEdit?: () => void;
 }
 
-export default function ChatMessage({ message }: ChatMessageProps) {
+export default function ChatMessage({
+  message,
+  isGatheringSources,
+  errorAction,
+  highlighted,
+  question,
+  onRegenerate,
+  onEdit,
+}: ChatMessageProps) {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme];
   const isUser = message.sender === "user";
   const [showReferencesModal, setShowReferencesModal] = useState(false);
+  const [showActionSheet, setShowActionSheet] = useState(false);
+  const [showReader, setShowReader] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), COPIED_NOTE_MS);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  // Index into earlier versions; the current answer comes after them
+  const versionCount = (message.versions?.length ?? 0) + 1;
+  const [versionIndex, setVersionIndex] = useState(versionCount - 1);
+  // A new answer version shows up as the current one
+  useEffect(() => {
+    setVersionIndex(versionCount - 1);
+  }, [versionCount]);
+  const isLatest = versionIndex >= versionCount - 1;
+  const shown: Message | AnswerVersion = isLatest
+    ? message
+    : message.versions![versionIndex];
+
+  const swipeResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onMoveShouldSetPanResponder: (_, { dx, dy }) =>
+          versionCount > 1 &&
+          Math.abs(dx) > 20 &&
+          Math.abs(dx) > Math.abs(dy) * 2,
+        onPanResponderRelease: (_, { dx }) => {
+          if (dx <= -SWIPE_DISTANCE) {
+            setVersionIndex((index) => Math.min(index + 1, versionCount - 1));
+          } else if (dx >= SWIPE_DISTANCE) {
+            setVersionIndex((index) => Math.max(index - 1, 0));
+          }
+        },
+      }),
+    [versionCount]
+  );
+
+  // A stopped answer may have no text at all; it still gets a bubble so it
+  // can be long-pressed to regenerate
+  const stoppedEmpty = !shown.text && shown.status === "interrupted";
+  const rowStyle = [
+    styles.messageRow,
+    highlighted && [styles.highlightedRow, { backgroundColor: colors.hoverBg }],
+  ];
+
+  // Actions apply to the version on screen
+  const shownMessage = {
+    sender: message.sender,
+    text: shown.text,
+    references: shown.references,
+  };
+
+  const copy = async (text: string) => {
+    await Clipboard.setStringAsync(text);
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setCopied(true);
+  };
+
+  const share = async () => {
+    try {
+      await Share.share({ message: formatShareText(shownMessage) });
+    } catch {
+      Alert.alert("Error", "Unable to share this message.", [{ text: "OK" }]);
+    }
+  };
+
+  const textActions: MessageAction[] = [
+    ...(isUser
+      ? [
+          {
+            label: "Copy",
+            icon: "copy-outline" as const,
+            onPress: () => copy(shown.text),
+          },
+        ]
+      : [
+          {
+            label: "Copy as plain text",
+            icon: "copy-outline" as const,
+            onPress: () => copy(markdownToPlainText(shown.text)),
+          },
+          {
+            label: "Copy as Markdown",
+            icon: "logo-markdown" as const,
+            onPress: () => copy(shown.text),
+          },
+        ]),
+    { label: "Share", icon: "share-outline", onPress: share },
+    {
+      label: "Select text",
+      icon: "text-outline",
+      onPress: () => setShowReader(true),
+    },
+  ];
+  const actions = shown.text ? textActions : [];
+  if (onEdit) {
+    actions.push({ label: "Edit", icon: "create-outline", onPress: onEdit });
+  }
+  if (onRegenerate) {
+    actions.push({
+      label: "Regenerate",
+      icon: "refresh",
+      onPress: onRegenerate,
+    });
+  }
+
+  const showActions =
+    actions.length > 0 ? () => setShowActionSheet(true) : undefined;
+
+  const overlays = (
+    <>
+      <MessageActionSheet
+        visible={showActionSheet}
+        onClose={() => setShowActionSheet(false)}
+        preview={markdownToPlainText(shown.text)}
+        actions={actions}
+      />
+      <MessageReader
+        visible={showReader}
+        onClose={() => setShowReader(false)}
+        message={shownMessage}
+      />
+    </>
+  );
+
+  const copiedNote = copied && (
+    <View style={[styles.statusRow, isUser && styles.statusRowEnd]}>
+      <Ionicons name="checkmark" size={14} color={colors.textSecondary} />
+      <ThemedText style={[styles.statusText, { color: colors.textSecondary }]}>
+        Copied
+      </ThemedText>
+    </View>
+  );
 
   if (isUser) {
     return (
-      <View style={styles.messageRow}>
+      <View style={rowStyle}>
         <View style={styles.userMessageContainer}>
-          <View
+          <Pressable
+            onLongPress={showActions}
             style={[
               styles.userMessage,
               {
@@ -37,15 +222,19 @@ export default function ChatMessage({ message }: ChatMessageProps) {
           >
             <ThemedText style={styles.userLabel}>You</ThemedText>
             <ThemedText style={styles.userText}>{message.text}</ThemedText>
-          </View>
+          </Pressable>
+          {copiedNote}
         </View>
+        {overlays}
       </View>
     );
   }
 
+  const referencesShown = shown.references ?? [];
+
   // Bot message
   return (
-    <View style={styles.messageRow}>
+    <View style={rowStyle}>
       <View style={styles.botMessageContainer}>
         <View style={styles.botHeader}>
           <Image
@@ -56,147 +245,241 @@ export default function ChatMessage({ message }: ChatMessageProps) {
             Deen
           </ThemedText>
         </View>
-        <View
-          style={[
-            styles.botMessage,
-            {
-              backgroundColor: colors.panel,
-              borderColor: colors.border,
-            },
-          ]}
-        >
-          <Markdown
-            style={{
-              body: {
-                color: colors.text,
-                fontSize: 15,
-                lineHeight: 25,
-              },
-              paragraph: {
-                marginTop: 15,
-                marginBottom: 15,
-                lineHeight: 25,
-              },
-              heading1: {
-                fontSize: 24,
-                fontWeight: "700",
-                marginTop: 24,
-                marginBottom: 12,
-                lineHeight: 31,
-                color: colors.text,
-              },
-              heading2: {
-                fontSize: 20,
-                fontWeight: "700",
-                marginTop: 22,
-                marginBottom: 11,
-                lineHeight: 28,
-                color: colors.text,
-              },
-              heading3: {
-                fontSize: 18,
-                fontWeight: "700",
-                marginTop: 20,
-                marginBottom: 10,
-                lineHeight: 25,
-                color: colors.text,
-              },
-              heading4: {
-                fontSize: 16,
-                fontWeight: "700",
-                marginTop: 18,
-                marginBottom: 9,
-                color: colors.text,
-              },
-              heading5: {
-                fontSize: 15,
-                fontWeight: "700",
-                marginTop: 16,
-                marginBottom: 8,
-                color: colors.text,
-              },
-              heading6: {
-                fontSize: 14,
-                fontWeight: "700",
-                marginTop: 14,
-                marginBottom: 7,
-                color: colors.text,
-              },
-              strong: {
-                fontWeight: "700",
-                color: colors.text,
-              },
-              em: {
-                fontStyle: "italic",
-              },
-              link: {
-                color: colors.primary,
-                textDecorationLine: "underline",
-              },
-              bullet_list: {
-                marginTop: 15,
-                marginBottom: 15,
-              },
-              ordered_list: {
-                marginTop: 15,
-                marginBottom: 15,
-              },
-              list_item: {
-                marginTop: 8,
-                marginBottom: 8,
-                lineHeight: 24,
-              },
-              code_inline: {
-                backgroundColor: colors.panel2,
-                color: colorScheme === "dark" ? "#d1fae5" : "#059669",
-                paddingHorizontal: 6,
-                paddingVertical: 3,
-                borderRadius: 4,
-                fontFamily: "monospace",
-                fontSize: 14,
-              },
-              code_block: {
-                backgroundColor: colors.panel2,
-                borderColor: colors.border,
-                borderWidth: 1,
-                borderRadius: 12,
-                padding: 12,
-                marginTop: 15,
-                marginBottom: 15,
-                fontFamily: "monospace",
-              },
-              fence: {
-                backgroundColor: colors.panel2,
+        {!isLatest && "question" in shown && shown.question !== question && (
+          <ThemedText
+            numberOfLines={2}
+            style={[styles.versionQuestion, { color: colors.textSecondary }]}
+          >
+            Answer to “{shown.question}”
+          </ThemedText>
+        )}
+        <View {...swipeResponder.panHandlers}>
+          <Pressable
+            onLongPress={showActions}
+            style={[
+              styles.botMessage,
+              {
+                backgroundColor: colors.panel,
                 borderColor: colors.border,
-                borderWidth: 1,
-                borderRadius: 12,
-                padding: 12,
-                marginTop: 15,
-                marginBottom: 15,
-                fontFamily: "monospace",
               },
-              blockquote: {
-                backgroundColor: "transparent",
-                borderLeftColor: colors.primary,
-                borderLeftWidth: 4,
-                paddingLeft: 15,
-                marginTop: 15,
-                marginBottom: 15,
-                fontStyle: "italic",
-                color: colors.textSecondary,
-              },
-              hr: {
-                backgroundColor: colors.border,
-                height: 1,
-                marginTop: 30,
-                marginBottom: 30,
-              },
-            }}
+            ]}
           >
-            {message.text}
-          </Markdown>
+            {stoppedEmpty ? (
+              <ThemedText
+                style={[styles.emptyAnswer, { color: colors.textSecondary }]}
+              >
+                No text was received before the answer stopped.
+              </ThemedText>
+            ) : (
+              <Markdown
+                style={{
+                  body: {
+                    color: colors.text,
+                    fontSize: 15,
+                    lineHeight: 25,
+                  },
+                  paragraph: {
+                    marginTop: 15,
+                    marginBottom: 15,
+                    lineHeight: 25,
+                  },
+                  heading1: {
+                    fontSize: 24,
+                    fontWeight: "700",
+                    marginTop: 24,
+                    marginBottom: 12,
+                    lineHeight: 31,
+                    color: colors.text,
+                  },
+                  heading2: {
+                    fontSize: 20,
+                    fontWeight: "700",
+                    marginTop: 22,
+                    marginBottom: 11,
+                    lineHeight: 28,
+                    color: colors.text,
+                  },
+                  heading3: {
+                    fontSize: 18,
+                    fontWeight: "700",
+                    marginTop: 20,
+                    marginBottom: 10,
+                    lineHeight: 25,
+                    color: colors.text,
+                  },
+                  heading4: {
+                    fontSize: 16,
+                    fontWeight: "700",
+                    marginTop: 18,
+                    marginBottom: 9,
+                    color: colors.text,
+                  },
+                  heading5: {
+                    fontSize: 15,
+                    fontWeight: "700",
+                    marginTop: 16,
+                    marginBottom: 8,
+                    color: colors.text,
+                  },
+                  heading6: {
+                    fontSize: 14,
+                    fontWeight: "700",
+                    marginTop: 14,
+                    marginBottom: 7,
+                    color: colors.text,
+                  },
+                  strong: {
+                    fontWeight: "700",
+                    color: colors.text,
+                  },
+                  em: {
+                    fontStyle: "italic",
+                  },
+                  link: {
+                    color: colors.primary,
+                    textDecorationLine: "underline",
+                  },
+                  bullet_list: {
+                    marginTop: 15,
+                    marginBottom: 15,
+                  },
+                  ordered_list: {
+                    marginTop: 15,
+                    marginBottom: 15,
+                  },
+                  list_item: {
+                    marginTop: 8,
+                    marginBottom: 8,
+                    lineHeight: 24,
+                  },
+                  code_inline: {
+                    backgroundColor: colors.panel2,
+                    color: colorScheme === "dark" ? "#d1fae5" : "#059669",
+                    paddingHorizontal: 6,
+                    paddingVertical: 3,
+                    borderRadius: 4,
+                    fontFamily: "monospace",
+                    fontSize: 14,
+                  },
+                  code_block: {
+                    backgroundColor: colors.panel2,
+                    borderColor: colors.border,
+                    borderWidth: 1,
+                    borderRadius: 12,
+                    padding: 12,
+                    marginTop: 15,
+                    marginBottom: 15,
+                    fontFamily: "monospace",
+                  },
+                  fence: {
+                    backgroundColor: colors.panel2,
+                    borderColor: colors.border,
+                    borderWidth: 1,
+                    borderRadius: 12,
+                    padding: 12,
+                    marginTop: 15,
+                    marginBottom: 15,
+                    fontFamily: "monospace",
+                  },
+                  blockquote: {
+                    backgroundColor: "transparent",
+                    borderLeftColor: colors.primary,
+                    borderLeftWidth: 4,
+                    paddingLeft: 15,
+                    marginTop: 15,
+                    marginBottom: 15,
+                    fontStyle: "italic",
+                    color: colors.textSecondary,
+                  },
+                  hr: {
+                    backgroundColor: colors.border,
+                    height: 1,
+                    marginTop: 30,
+                    marginBottom: 30,
+                  },
+                }}
+              >
+                {shown.text}
+              </Markdown>
+            )}
+          </Pressable>
         </View>
-        {message.references && message.references.length > 0 && (
+        {versionCount > 1 && (
+          <View style={styles.versionPager}>
+            <TouchableOpacity
+              onPress={() => setVersionIndex((index) => Math.max(index - 1, 0))}
+              disabled={versionIndex === 0}
+              hitSlop={{ top: 8, right: 8, bottom: 8, left: 8 }}
+              accessibilityLabel="Previous answer"
+            >
+              <Ionicons
+                name="chevron-back"
+                size={16}
+                color={versionIndex === 0 ? colors.muted : colors.primary}
+              />
+            </TouchableOpacity>
+            <ThemedText
+              style={[styles.versionText, { color: colors.textSecondary }]}
+            >
+              {versionIndex + 1} / {versionCount}
+            </ThemedText>
+            <TouchableOpacity
+              onPress={() =>
+                setVersionIndex((index) => Math.min(index + 1, versionCount - 1))
+              }
+              disabled={isLatest}
+              hitSlop={{ top: 8, right: 8, bottom: 8, left: 8 }}
+              accessibilityLabel="Next answer"
+            >
+              <Ionicons
+                name="chevron-forward"
+                size={16}
+                color={isLatest ? colors.muted : colors.primary}
+              />
+            </TouchableOpacity>
+          </View>
+        )}
+        {copiedNote}
+        {isGatheringSources && isLatest && (
+          <View style={styles.statusRow}>
+            <ActivityIndicator size="small" color={colors.primary} />
+            <ThemedText
+              style={[styles.statusText, { color: colors.textSecondary }]}
+            >
+              Gathering sources…
+            </ThemedText>
+          </View>
+        )}
+        {shown.status === "interrupted" && (
+          <View style={styles.statusRow}>
+            <Ionicons
+              name="stop-circle-outline"
+              size={14}
+              color={colors.textSecondary}
+            />
+            <ThemedText
+              style={[styles.statusText, { color: colors.textSecondary }]}
+            >
+              Response stopped
+            </ThemedText>
+          </View>
+        )}
+        {shown.status === "error" && isLatest && errorAction && (
+          <TouchableOpacity
+            style={[
+              styles.errorAction,
+              { backgroundColor: colors.panel2, borderColor: colors.border },
+            ]}
+            onPress={errorAction.onPress}
+            activeOpacity={0.7}
+          >
+            <Ionicons name={errorAction.icon} size={14} color={colors.primary} />
+            <ThemedText style={[styles.errorActionText, { color: colors.primary }]}>
+              {errorAction.label}
+            </ThemedText>
+          </TouchableOpacity>
+        )}
+        {referencesShown.length > 0 && (
           <>
             <TouchableOpacity
               style={[
@@ -212,8 +495,8 @@ export default function ChatMessage({ message }: ChatMessageProps) {
               <ThemedText
                 style={[styles.referencesText, { color: colors.textSecondary }]}
               >
-                {message.references.length} reference
-                {message.references.length !== 1 ? "s" : ""} available
+                {referencesShown.length} reference
+                {referencesShown.length !== 1 ? "s" : ""} available
               </ThemedText>
               <Ionicons
                 name="chevron-forward"
@@ -225,11 +508,12 @@ export default function ChatMessage({ message }: ChatMessageProps) {
             <ReferencesModal
               visible={showReferencesModal}
               onClose={() => setShowReferencesModal(false)}
-              references={message.references}
+              references={referencesShown}
             />
           </>
         )}
       </View>
+      {overlays}
     </View>
   );
 }
@@ -239,6 +523,9 @@ const styles = StyleSheet.create({
     paddingHorizontal: 16,
     marginBottom: 16,
   },
+  highlightedRow: {
+    borderRadius: 16,
+  },
   userMessageContainer: {
     alignItems: "flex-end",
   },
@@ -288,6 +575,34 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     padding: 12,
   },
+  statusRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    marginTop: 6,
+  },
+  statusRowEnd: {
+    justifyContent: "flex-end",
+  },
+  statusText: {
+    fontSize: 12,
+    fontStyle: "italic",
+  },
+  errorAction: {
+    alignSelf: "flex-start",
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginTop: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  errorActionText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
   referencesHint: {
     marginTop: 8,
     paddingHorizontal: 12,
@@ -305,4 +620,23 @@ const styles = StyleSheet.create({
   chevronIcon: {
     marginLeft: 8,
   },
+  emptyAnswer: {
+    fontSize: 14,
+    fontStyle: "italic",
+  },
+  versionQuestion: {
+    fontSize: 12,
+    fontStyle: "italic",
+    marginBottom: 6,
+  },
+  versionPager: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 6,
+  },
+  versionText: {
+    fontSize: 12,
+    fontVariant: ["tabular-nums"],
+  },
 });
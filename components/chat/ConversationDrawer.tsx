@@ -0,0 +1,564 @@
+/**
+ * Conversation Drawer Component
+ * Slides in from the left of the chat screen with past conversations:
+ * tap one to reopen it, or use its menu to rename, export or delete it.
+ * Typing in the search field lists matching messages instead (see
+ * utils/chatSearch.ts); tapping one opens its conversation at that message.
+ */
+
+import React, { useEffect, useRef, useState } from "react";
+import {
+  View,
+  Modal,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  TextInput,
+  Animated,
+  Alert,
+  Dimensions,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { ThemedText } from "@/components/themed-text";
+import { Colors } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import {
+  ConversationSummary,
+  listConversations,
+  renameConversation,
+  subscribeConversations,
+} from "@/utils/chatStorage";
+import { ChatSearchResult, searchChats } from "@/utils/chatSearch";
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  shareConversationExport,
+} from "@/utils/chatExport";
+import { UI_CONSTANTS } from "@/utils/constants";
+import { createLogger } from "@/utils/logger";
+import MessageActionSheet, { MessageAction } from "./MessageActionSheet";
+
+const log = createLogger("chat");
+
+const EXPORT_ICONS: Record<ExportFormat, MessageAction["icon"]> = {
+  markdown: "logo-markdown",
+  text: "document-text-outline",
+  pdf: "document-outline",
+};
+
+const DRAWER_WIDTH = Math.min(340, Dimensions.get("window").width * 0.85);
+
+interface ConversationDrawerProps {
+  visible: boolean;
+  onClose: () => void;
+  currentSessionId: string | null;
+  /** Display name for a stored chat language */
+  languageLabel: (language: string | null) => string;
+  onSelect: (sessionId: string) => void;
+  /** A search result was tapped */
+  onSelectMessage: (sessionId: string, messageIndex: number) => void;
+  onNewChat: () => void;
+  onDelete: (sessionId: string) => void;
+  /** Switching is blocked while an answer is streaming */
+  disabled?: boolean;
+}
+
+export function conversationTitle(conversation: ConversationSummary) {
+  return conversation.title || "Untitled chat";
+}
+
+function formatUpdatedAt(updatedAt: number) {
+  const date = new Date(updatedAt);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" })
+    : date.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+export default function ConversationDrawer({
+  visible,
+  onClose,
+  currentSessionId,
+  languageLabel,
+  onSelect,
+  onSelectMessage,
+  onNewChat,
+  onDelete,
+  disabled = false,
+}: ConversationDrawerProps) {
+  const insets = useSafeAreaInsets();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme];
+  const [conversations, setConversations] = useState<ConversationSummary[]>(
+    []
+  );
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<ChatSearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [menu, setMenu] = useState<{
+    kind: "actions" | "export";
+    conversation: ConversationSummary;
+  } | null>(null);
+  const slideAnim = useRef(new Animated.Value(0)).current;
+
+  useEffect(() => {
+    if (!visible) return;
+    let mounted = true;
+    listConversations().then((list) => {
+      if (mounted) setConversations(list);
+    });
+    const unsubscribe = subscribeConversations(setConversations);
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, [visible]);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+    let cancelled = false;
+    setSearching(true);
+    const timer = setTimeout(() => {
+      searchChats(query).then((found) => {
+        if (cancelled) return;
+        setResults(found);
+        setSearching(false);
+      });
+    }, UI_CONSTANTS.DEBOUNCE_DELAY);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  useEffect(() => {
+    if (!visible) {
+      setEditingId(null);
+      setQuery("");
+      setMenu(null);
+      slideAnim.setValue(0);
+      return;
+    }
+    Animated.spring(slideAnim, {
+      toValue: 1,
+      useNativeDriver: true,
+      tension: 65,
+      friction: 11,
+    }).start();
+  }, [visible, slideAnim]);
+
+  const startRename = (conversation: ConversationSummary) => {
+    setEditingId(conversation.sessionId);
+    setDraftTitle(conversation.title ?? "");
+  };
+
+  const commitRename = () => {
+    if (editingId) renameConversation(editingId, draftTitle);
+    setEditingId(null);
+  };
+
+  const confirmDelete = (conversation: ConversationSummary) => {
+    Alert.alert(
+      "Delete chat?",
+      `"${conversationTitle(conversation)}" will be removed from this device.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () => onDelete(conversation.sessionId),
+        },
+      ]
+    );
+  };
+
+  const exportConversation = (
+    conversation: ConversationSummary,
+    format: ExportFormat
+  ) => {
+    shareConversationExport(
+      conversation.sessionId,
+      conversationTitle(conversation),
+      format
+    ).catch((error) => {
+      log.error("❌ Failed to export chat:", error);
+      Alert.alert("Error", "Unable to export this chat.");
+    });
+  };
+
+  // Android alerts hold at most three buttons, so the menus use a sheet
+  const sheetActions = (): MessageAction[] => {
+    if (!menu) return [];
+    const { conversation } = menu;
+    if (menu.kind === "export") {
+      return EXPORT_FORMATS.map(({ value, label }) => ({
+        label,
+        icon: EXPORT_ICONS[value],
+        onPress: () => exportConversation(conversation, value),
+      }));
+    }
+    return [
+      {
+        label: "Rename",
+        icon: "create-outline",
+        onPress: () => startRename(conversation),
+      },
+      {
+        label: "Export",
+        icon: "download-outline",
+        onPress: () => setMenu({ kind: "export", conversation }),
+      },
+      {
+        label: "Delete",
+        icon: "trash-outline",
+        onPress: () => confirmDelete(conversation),
+      },
+    ];
+  };
+
+  // Renaming or deleting mid-stream could drop the answer being saved
+  const openActions = (conversation: ConversationSummary) => {
+    if (disabled) return;
+    setMenu({ kind: "actions", conversation });
+  };
+
+  const renderItem = ({ item }: { item: ConversationSummary }) => {
+    const isCurrent = item.sessionId === currentSessionId;
+    const isEditing = item.sessionId === editingId;
+
+    return (
+      <TouchableOpacity
+        style={[
+          styles.row,
+          {
+            backgroundColor: isCurrent ? colors.panel2 : "transparent",
+            borderColor: isCurrent ? colors.border : "transparent",
+          },
+        ]}
+        onPress={() => {
+          if (isEditing || disabled) return;
+          onSelect(item.sessionId);
+        }}
+        onLongPress={() => openActions(item)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.rowText}>
+          {isEditing ? (
+            <TextInput
+              value={draftTitle}
+              onChangeText={setDraftTitle}
+              onSubmitEditing={commitRename}
+              onBlur={commitRename}
+              placeholder="Chat title"
+              placeholderTextColor={colors.textSecondary}
+              autoFocus
+              returnKeyType="done"
+              style={[
+                styles.titleInput,
+                { color: colors.text, borderColor: colors.border },
+              ]}
+            />
+          ) : (
+            <ThemedText
+              type="defaultSemiBold"
+              numberOfLines={1}
+              style={styles.rowTitle}
+            >
+              {conversationTitle(item)}
+            </ThemedText>
+          )}
+          <ThemedText
+            numberOfLines={1}
+            style={[styles.rowMeta, { color: colors.textSecondary }]}
+          >
+            {formatUpdatedAt(item.updatedAt)} · {languageLabel(item.language)} ·{" "}
+            {item.messageCount} {item.messageCount === 1 ? "message" : "messages"}
+          </ThemedText>
+        </View>
+        {!isEditing && (
+          <TouchableOpacity
+            hitSlop={{ top: 10, right: 10, bottom: 10, left: 10 }}
+            onPress={() => openActions(item)}
+            disabled={disabled}
+            style={{ opacity: disabled ? 0.5 : 1 }}
+          >
+            <Ionicons
+              name="ellipsis-horizontal"
+              size={18}
+              color={colors.textSecondary}
+            />
+          </TouchableOpacity>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderResult = ({ item }: { item: ChatSearchResult }) => {
+    const conversation = conversations.find(
+      (c) => c.sessionId === item.sessionId
+    );
+    return (
+      <TouchableOpacity
+        style={[styles.row, { borderColor: "transparent" }]}
+        onPress={() => {
+          if (disabled) return;
+          onSelectMessage(item.sessionId, item.messageIndex);
+        }}
+        activeOpacity={0.7}
+      >
+        <View style={styles.rowText}>
+          <ThemedText
+            numberOfLines={1}
+            style={[styles.rowMeta, { color: colors.textSecondary }]}
+          >
+            {conversation ? conversationTitle(conversation) : "Chat"} ·{" "}
+            {item.sender === "user" ? "You" : "Deen"}
+          </ThemedText>
+          <ThemedText numberOfLines={3} style={styles.snippet}>
+            {item.snippet}
+          </ThemedText>
+          {item.referenceTitle ? (
+            <View style={styles.referenceLine}>
+              <Ionicons
+                name="book-outline"
+                size={12}
+                color={colors.primary}
+              />
+              <ThemedText
+                numberOfLines={1}
+                style={[styles.rowMeta, { color: colors.primary }]}
+              >
+                {item.referenceTitle}
+              </ThemedText>
+            </View>
+          ) : null}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const isSearching = query.trim().length > 0;
+
+  return (
+    <Modal
+      transparent
+      animationType="fade"
+      visible={visible}
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <Animated.View
+          style={[
+            styles.drawer,
+            {
+              width: DRAWER_WIDTH,
+              backgroundColor: colors.panel,
+              borderRightColor: colors.border,
+              paddingTop: insets.top + 16,
+              paddingBottom: insets.bottom + 16,
+              transform: [
+                {
+                  translateX: slideAnim.interpolate({
+                    inputRange: [0, 1],
+                    outputRange: [-DRAWER_WIDTH, 0],
+                  }),
+                },
+              ],
+            },
+          ]}
+        >
+          <View style={styles.header}>
+            <ThemedText type="subtitle">Chats</ThemedText>
+            <TouchableOpacity
+              onPress={onClose}
+              hitSlop={{ top: 10, right: 10, bottom: 10, left: 10 }}
+            >
+              <Ionicons name="close" size={22} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <TouchableOpacity
+            style={[
+              styles.newChatButton,
+              { borderColor: colors.border, opacity: disabled ? 0.5 : 1 },
+            ]}
+            onPress={onNewChat}
+            disabled={disabled}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="add" size={18} color={colors.primary} />
+            <ThemedText style={[styles.newChatText, { color: colors.primary }]}>
+              New chat
+            </ThemedText>
+          </TouchableOpacity>
+
+          <TextInput
+            value={query}
+            onChangeText={setQuery}
+            placeholder="Search chats"
+            placeholderTextColor={colors.textSecondary}
+            autoCapitalize="none"
+            autoCorrect={false}
+            clearButtonMode="while-editing"
+            returnKeyType="search"
+            style={[
+              styles.searchInput,
+              {
+                color: colors.text,
+                backgroundColor: colors.panel2,
+                borderColor: colors.border,
+              },
+            ]}
+          />
+
+          {isSearching ? (
+            <FlatList
+              data={results}
+              keyExtractor={(item) => `${item.sessionId}:${item.messageIndex}`}
+              renderItem={renderResult}
+              keyboardShouldPersistTaps="handled"
+              contentContainerStyle={styles.list}
+              ListEmptyComponent={
+                <ThemedText
+                  style={[styles.emptyText, { color: colors.textSecondary }]}
+                >
+                  {searching ? "Searching…" : "No messages match your search."}
+                </ThemedText>
+              }
+            />
+          ) : (
+            <FlatList
+              data={conversations}
+              keyExtractor={(item) => item.sessionId}
+              renderItem={renderItem}
+              keyboardShouldPersistTaps="handled"
+              contentContainerStyle={styles.list}
+              ListEmptyComponent={
+                <ThemedText
+                  style={[styles.emptyText, { color: colors.textSecondary }]}
+                >
+                  Your past chats will appear here.
+                </ThemedText>
+              }
+            />
+          )}
+        </Animated.View>
+
+        <TouchableOpacity
+          activeOpacity={1}
+          style={styles.backdrop}
+          onPress={onClose}
+        />
+      </View>
+
+      <MessageActionSheet
+        visible={menu !== null}
+        onClose={() => setMenu(null)}
+        preview={
+          menu?.kind === "export"
+            ? "Export with references as"
+            : menu
+              ? conversationTitle(menu.conversation)
+              : ""
+        }
+        actions={sheetActions()}
+      />
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    flexDirection: "row",
+    backgroundColor: "rgba(0,0,0,0.35)",
+  },
+  drawer: {
+    height: "100%",
+    borderRightWidth: 1,
+    paddingHorizontal: 12,
+  },
+  backdrop: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 8,
+    marginBottom: 12,
+  },
+  newChatButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    marginBottom: 12,
+  },
+  newChatText: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  searchInput: {
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+    marginBottom: 12,
+  },
+  list: {
+    gap: 4,
+    paddingBottom: 16,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+  },
+  rowText: {
+    flex: 1,
+    gap: 2,
+  },
+  rowTitle: {
+    fontSize: 15,
+  },
+  rowMeta: {
+    fontSize: 12,
+  },
+  snippet: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  referenceLine: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  titleInput: {
+    fontSize: 15,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  emptyText: {
+    textAlign: "center",
+    marginTop: 24,
+    fontSize: 14,
+  },
+});
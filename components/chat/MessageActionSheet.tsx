@@ -0,0 +1,169 @@
+/**
+ * Message Action Sheet Component
+ * Bottom sheet listing the actions for a long-pressed chat message
+ */
+
+import React, { useEffect, useRef } from "react";
+import {
+  View,
+  Modal,
+  StyleSheet,
+  TouchableOpacity,
+  Animated,
+  Platform,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { ThemedText } from "@/components/themed-text";
+import { Colors } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+
+export interface MessageAction {
+  label: string;
+  icon: React.ComponentProps<typeof Ionicons>["name"];
+  onPress: () => void;
+}
+
+interface MessageActionSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  /** Short preview of the message, shown above the actions */
+  preview: string;
+  actions: MessageAction[];
+}
+
+export default function MessageActionSheet({
+  visible,
+  onClose,
+  preview,
+  actions,
+}: MessageActionSheetProps) {
+  const insets = useSafeAreaInsets();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme];
+  const slideAnim = useRef(new Animated.Value(0)).current;
+  // iOS can't present another modal or the share sheet while this one is
+  // still dismissing, so there the action waits for onDismiss
+  const pendingActionRef = useRef<(() => void) | null>(null);
+
+  const runPendingAction = () => {
+    const action = pendingActionRef.current;
+    pendingActionRef.current = null;
+    action?.();
+  };
+
+  const handleAction = (action: MessageAction) => {
+    onClose();
+    if (Platform.OS === "ios") {
+      pendingActionRef.current = action.onPress;
+    } else {
+      action.onPress();
+    }
+  };
+
+  useEffect(() => {
+    if (!visible) {
+      slideAnim.setValue(0);
+      return;
+    }
+    Animated.spring(slideAnim, {
+      toValue: 1,
+      useNativeDriver: true,
+      tension: 65,
+      friction: 11,
+    }).start();
+  }, [visible, slideAnim]);
+
+  return (
+    <Modal
+      transparent
+      animationType="fade"
+      visible={visible}
+      onRequestClose={onClose}
+      onDismiss={runPendingAction}
+    >
+      <View style={styles.overlay}>
+        <TouchableOpacity
+          activeOpacity={1}
+          style={StyleSheet.absoluteFill}
+          onPress={onClose}
+        />
+        <Animated.View
+          style={[
+            styles.sheet,
+            {
+              backgroundColor: colors.panel,
+              borderColor: colors.border,
+              paddingBottom: insets.bottom + 12,
+              transform: [
+                {
+                  translateY: slideAnim.interpolate({
+                    inputRange: [0, 1],
+                    outputRange: [400, 0],
+                  }),
+                },
+              ],
+            },
+          ]}
+        >
+          <View style={[styles.handle, { backgroundColor: colors.border }]} />
+          <ThemedText
+            numberOfLines={2}
+            style={[styles.preview, { color: colors.textSecondary }]}
+          >
+            {preview}
+          </ThemedText>
+          {actions.map((action) => (
+            <TouchableOpacity
+              key={action.label}
+              style={[styles.action, { borderTopColor: colors.border }]}
+              onPress={() => handleAction(action)}
+              activeOpacity={0.7}
+            >
+              <Ionicons name={action.icon} size={20} color={colors.primary} />
+              <ThemedText style={styles.actionLabel}>{action.label}</ThemedText>
+            </TouchableOpacity>
+          ))}
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0,0,0,0.35)",
+  },
+  sheet: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    borderWidth: 1,
+    borderBottomWidth: 0,
+    paddingHorizontal: 16,
+    paddingTop: 8,
+  },
+  handle: {
+    alignSelf: "center",
+    width: 36,
+    height: 4,
+    borderRadius: 2,
+    marginBottom: 12,
+  },
+  preview: {
+    fontSize: 13,
+    lineHeight: 18,
+    marginBottom: 8,
+  },
+  action: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 14,
+    paddingVertical: 14,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  actionLabel: {
+    fontSize: 16,
+  },
+});
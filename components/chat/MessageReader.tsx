@@ -0,0 +1,157 @@
+/**
+ * Message Reader Component
+ * Full-screen view of one message as selectable plain text, with its
+ * references as numbered citations, so any part of it can be copied
+ */
+
+import React from "react";
+import {
+  View,
+  Modal,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { ThemedText } from "@/components/themed-text";
+import { Colors } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import type { Message } from "@/utils/chatStorage";
+import { formatCitation, markdownToPlainText } from "@/utils/messageFormat";
+
+interface MessageReaderProps {
+  visible: boolean;
+  onClose: () => void;
+  message: Pick<Message, "sender" | "text" | "references">;
+}
+
+export default function MessageReader({
+  visible,
+  onClose,
+  message,
+}: MessageReaderProps) {
+  const insets = useSafeAreaInsets();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme];
+  const references = message.references ?? [];
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={onClose}
+      statusBarTranslucent
+    >
+      <View
+        style={[
+          styles.container,
+          { backgroundColor: colors.background, paddingTop: insets.top + 12 },
+        ]}
+      >
+        <View style={[styles.header, { borderBottomColor: colors.border }]}>
+          <ThemedText type="subtitle" style={styles.headerTitle}>
+            {message.sender === "user" ? "Your question" : "Answer"}
+          </ThemedText>
+          <TouchableOpacity
+            onPress={onClose}
+            style={[
+              styles.closeButton,
+              { backgroundColor: colors.panel2, borderColor: colors.border },
+            ]}
+            hitSlop={{ top: 12, right: 12, bottom: 12, left: 12 }}
+            accessibilityLabel="Close"
+          >
+            <Ionicons name="close" size={22} color={colors.text} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView
+          contentContainerStyle={[
+            styles.content,
+            { paddingBottom: insets.bottom + 32 },
+          ]}
+        >
+          <ThemedText style={[styles.hint, { color: colors.textSecondary }]}>
+            Press and hold the text to select it.
+          </ThemedText>
+          <ThemedText selectable style={styles.body}>
+            {markdownToPlainText(message.text)}
+          </ThemedText>
+
+          {references.length > 0 && (
+            <View
+              style={[styles.references, { borderTopColor: colors.border }]}
+            >
+              <ThemedText
+                style={[styles.referencesTitle, { color: colors.primary }]}
+              >
+                REFERENCES
+              </ThemedText>
+              {references.map((reference, index) => (
+                <ThemedText
+                  key={index}
+                  selectable
+                  style={[styles.citation, { color: colors.textSecondary }]}
+                >
+                  [{index + 1}] {formatCitation(reference)}
+                </ThemedText>
+              ))}
+            </View>
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+  },
+  headerTitle: {
+    fontSize: 18,
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  content: {
+    padding: 20,
+    gap: 12,
+  },
+  hint: {
+    fontSize: 12,
+  },
+  body: {
+    fontSize: 16,
+    lineHeight: 26,
+  },
+  references: {
+    marginTop: 12,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    gap: 10,
+  },
+  referencesTitle: {
+    fontSize: 13,
+    fontWeight: "700",
+    letterSpacing: 0.4,
+  },
+  citation: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+});
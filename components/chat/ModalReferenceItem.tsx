@@ -16,11 +16,15 @@ import {
 import { Ionicons } from "@expo/vector-icons";
 import { Colors } from "@/constants/theme";
 import { useColorScheme } from "@/hooks/use-color-scheme";
-import type { Reference } from "@/utils/chatStorage";
+import {
+  Reference,
+  ReferenceSect,
+  formatReference,
+} from "@/utils/references";
 
 interface ModalReferenceItemProps {
   reference: Reference;
-  type: "shia" | "sunni";
+  type: ReferenceSect;
   index: number;
 }
 
@@ -33,31 +37,8 @@ export default function ModalReferenceItem({
   const colors = Colors[colorScheme];
   const [isExpanded, setIsExpanded] = useState(false);
 
-  const metadata = reference || {};
-  const en = (reference?.text || "").trim();
-  const ar = (reference?.text_ar || "").trim();
-
-  // Build condensed preview with essential metadata
-  const buildMetadataLine = () => {
-    const parts = [];
-    if (metadata.collection) parts.push(metadata.collection);
-    if (metadata.author) parts.push(metadata.author);
-    if (metadata.hadith_no) parts.push(`Hadith #${metadata.hadith_no}`);
-    return parts.filter(Boolean).join(" • ");
-  };
-
-  const buildSecondaryLine = () => {
-    const parts = [];
-    if (metadata.chapter_number) parts.push(`Ch. ${metadata.chapter_number}`);
-    if (metadata.chapter_title) parts.push(metadata.chapter_title);
-    if (metadata.book_title) parts.push(metadata.book_title);
-    if (metadata.volume) parts.push(`Vol. ${metadata.volume}`);
-    return parts.filter(Boolean).join(" • ");
-  };
-
-  const metadataLine1 = buildMetadataLine() || "Reference";
-  const metadataLine2 = buildSecondaryLine();
-  const textPreview = en ? en.substring(0, 80) : "No text available";
+  const formatted = formatReference(reference || {});
+  const { text: en, textAr: ar } = formatted;
 
   const handleToggle = () => {
     if (Platform.OS === "ios" || Platform.OS === "android") {
@@ -66,26 +47,14 @@ export default function ModalReferenceItem({
     setIsExpanded(!isExpanded);
   };
 
-  const renderField = (label: string, value: any) => {
-    if (
-      !value ||
-      String(value).trim() === "" ||
-      String(value).trim() === "N/A" ||
-      String(value).trim() === "unspecified"
-    )
-      return null;
-
-    return (
-      <View style={styles.field}>
-        <Text style={[styles.fieldLabel, { color: colors.textSecondary }]}>
-          {label}
-        </Text>
-        <Text style={[styles.fieldValue, { color: colors.text }]}>
-          {String(value)}
-        </Text>
-      </View>
-    );
-  };
+  const renderField = ({ label, value }: { label: string; value: string }) => (
+    <View key={label} style={styles.field}>
+      <Text style={[styles.fieldLabel, { color: colors.textSecondary }]}>
+        {label}
+      </Text>
+      <Text style={[styles.fieldValue, { color: colors.text }]}>{value}</Text>
+    </View>
+  );
 
   return (
     <TouchableOpacity
@@ -104,16 +73,7 @@ export default function ModalReferenceItem({
         // Expanded View
         <>
           <View style={styles.metadataGrid}>
-            {renderField("Author", metadata.author)}
-            {renderField("Reference", metadata.reference)}
-            {renderField("Source", metadata.collection)}
-            {renderField("Volume", metadata.volume)}
-            {renderField("Book number", metadata.book_number)}
-            {renderField("Book title", metadata.book_title)}
-            {renderField("Chapter number", metadata.chapter_number)}
-            {renderField("Chapter title", metadata.chapter_title)}
-            {renderField("Hadith number", metadata.hadith_no)}
-            {renderField("Authenticity", metadata.grade_en)}
+            {formatted.fields.map(renderField)}
           </View>
 
           <View style={styles.textSection}>
@@ -153,23 +113,23 @@ export default function ModalReferenceItem({
               numberOfLines={1}
               ellipsizeMode="tail"
             >
-              {metadataLine1}
+              {formatted.title}
             </Text>
-            {metadataLine2 && (
+            {formatted.subtitle ? (
               <Text
                 style={[styles.condensedLine2, { color: colors.textSecondary }]}
                 numberOfLines={1}
                 ellipsizeMode="tail"
               >
-                {metadataLine2}
+                {formatted.subtitle}
               </Text>
-            )}
+            ) : null}
             <Text
               style={[styles.condensedLine3, { color: colors.textSecondary }]}
               numberOfLines={1}
               ellipsizeMode="tail"
             >
-              {textPreview}
+              {formatted.preview}
             </Text>
           </View>
           <View style={styles.chevronContainer}>
@@ -22,7 +22,11 @@ import { ThemedText } from "@/components/themed-text";
 import { Colors } from "@/constants/theme";
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import ModalReferenceItem from "./ModalReferenceItem";
-import type { Reference } from "@/utils/chatStorage";
+import {
+  Reference,
+  ReferenceSect,
+  groupReferencesBySect,
+} from "@/utils/references";
 
 interface ReferencesModalProps {
   visible: boolean;
@@ -41,7 +45,7 @@ export default function ReferencesModal({
   const blurIntensity = Platform.OS === "android" ? 120 : 60;
 
   // Tab state: 'shia' or 'sunni'
-  const [activeTab, setActiveTab] = useState<"shia" | "sunni">("shia");
+  const [activeTab, setActiveTab] = useState<ReferenceSect>("shia");
 
   // Animation for modal entrance
   const slideAnim = useRef(new Animated.Value(0)).current;
@@ -52,14 +56,8 @@ export default function ReferencesModal({
   const countOpacity = useRef(new Animated.Value(0)).current;
 
   // Categorize references by sect field
-  const allRefs = Array.isArray(references) ? references : [];
-  
-  // Filter references by sect
-  const shiaRefs = allRefs.filter((ref: any) => 
-    ref.sect === "shia" || ref.sect === "Shia"
-  );
-  const sunniRefs = allRefs.filter((ref: any) => 
-    ref.sect === "sunni" || ref.sect === "Sunni"
+  const { shia: shiaRefs, sunni: sunniRefs } = groupReferencesBySect(
+    Array.isArray(references) ? references : []
   );
 
   const hasShiaRefs = shiaRefs.length > 0;
@@ -301,7 +299,7 @@ export default function ReferencesModal({
           >
             {activeRefs.length > 0 ? (
               <View style={styles.referencesSection}>
-                {activeRefs.map((ref: any, idx: number) => (
+                {activeRefs.map((ref, idx) => (
                   <ModalReferenceItem
                     key={`${activeTab}-${idx}`}
                     reference={ref}
@@ -18,6 +18,8 @@ import { Colors } from "@/constants/theme";
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import { useAuth } from "@/hooks/useAuth";
 import { elaborateSelectionStream, ElaborationPayload } from "@/utils/api";
+import { isAbortError } from "@/utils/apiErrors";
+import { describeError } from "@/utils/errorMessages";
 import * as Haptics from "expo-haptics";
 import Markdown from "react-native-markdown-display";
 
@@ -103,12 +105,10 @@ export default function ElaborationModal({
         },
         { signal: controller.signal }
       );
-    } catch (err: any) {
-      if (!err.message?.includes("aborted")) {
+    } catch (err) {
+      if (!isAbortError(err)) {
         console.error("Elaboration failed:", err);
-        setError(
-          "Sorry, I couldn't get an answer right now. Please try again."
-        );
+        setError(describeError(err).message);
       }
     } finally {
       setLoading(false);
@@ -3,14 +3,18 @@ import { WebView, WebViewMessageEvent } from "react-native-webview";
 import showdown from "showdown";
 import { Colors } from "@/constants/theme";
 import { useColorScheme } from "@/hooks/use-color-scheme";
+import { PrimerGlossary } from "@/utils/api";
 
 interface LessonContentWebViewProps {
   markdown: string;
+  /** Terms to underline; tapping one shows its definition */
+  glossary?: PrimerGlossary;
   onSelectionChange: (selection: { text: string; context: string }) => void;
 }
 
 export default function LessonContentWebView({
   markdown,
+  glossary,
   onSelectionChange,
 }: LessonContentWebViewProps) {
   const colorScheme = useColorScheme();
@@ -20,6 +24,8 @@ export default function LessonContentWebView({
   // Convert markdown to HTML
   const converter = new showdown.Converter();
   const htmlContent = converter.makeHtml(markdown);
+  // Inlined into a <script>: "<" is escaped so a definition can't close the tag
+  const glossaryJson = JSON.stringify(glossary ?? {}).replace(/</g, "\\u003c");
 
   const html = `
     <!DOCTYPE html>
@@ -64,12 +70,118 @@ export default function LessonContentWebView({
           }
           img { max-width: 100%; border-radius: 8px; }
           a { color: ${colors.primary}; text-decoration: none; }
+          .glossary-term {
+            text-decoration: underline dotted ${colors.primary};
+            text-underline-offset: 3px;
+            cursor: pointer;
+          }
+          #glossary-popover {
+            display: none;
+            position: absolute;
+            z-index: 10;
+            max-width: 280px;
+            background-color: ${colors.panel2};
+            border: 1px solid ${colors.border};
+            border-radius: 10px;
+            padding: 10px 12px;
+            font-size: 15px;
+            line-height: 1.45;
+            box-shadow: 0 4px 16px rgba(0, 0, 0, 0.18);
+          }
+          #glossary-popover strong { display: block; color: ${colors.primary}; margin-bottom: 2px; }
         </style>
       </head>
       <body>
         ${htmlContent}
+        <div id="glossary-popover"></div>
         <script>
           (function() {
+            var glossary = ${glossaryJson};
+            var terms = Object.keys(glossary).sort(function(a, b) {
+              return b.length - a.length;
+            });
+            var popover = document.getElementById("glossary-popover");
+            var wordChar = /[\\p{L}\\p{N}]/u;
+
+            function escapeRegExp(text) {
+              return text.replace(/[.*+?^\${}()|[\\]\\\\]/g, "\\\\$&");
+            }
+
+            // Wrap whole-word, case-insensitive matches in underlined spans
+            function highlightTerms() {
+              if (terms.length === 0) return;
+              var pattern = new RegExp(terms.map(escapeRegExp).join("|"), "gi");
+              var walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT, {
+                acceptNode: function(node) {
+                  var parent = node.parentElement;
+                  if (!parent || parent.closest("code, pre, a, script, #glossary-popover")) {
+                    return NodeFilter.FILTER_REJECT;
+                  }
+                  return NodeFilter.FILTER_ACCEPT;
+                }
+              });
+              var nodes = [];
+              while (walker.nextNode()) nodes.push(walker.currentNode);
+
+              nodes.forEach(function(node) {
+                var text = node.nodeValue;
+                var fragment = document.createDocumentFragment();
+                var last = 0;
+                var match;
+                pattern.lastIndex = 0;
+                while ((match = pattern.exec(text))) {
+                  var start = match.index;
+                  var end = start + match[0].length;
+                  if (wordChar.test(text.charAt(start - 1)) || wordChar.test(text.charAt(end))) {
+                    continue;
+                  }
+                  var term = terms.find(function(t) {
+                    return t.toLowerCase() === match[0].toLowerCase();
+                  });
+                  fragment.appendChild(document.createTextNode(text.slice(last, start)));
+                  var span = document.createElement("span");
+                  span.className = "glossary-term";
+                  span.setAttribute("data-term", term);
+                  span.textContent = match[0];
+                  fragment.appendChild(span);
+                  last = end;
+                }
+                if (last === 0) return;
+                fragment.appendChild(document.createTextNode(text.slice(last)));
+                node.parentNode.replaceChild(fragment, node);
+              });
+            }
+
+            function showDefinition(span) {
+              var term = span.getAttribute("data-term");
+              popover.textContent = "";
+              var title = document.createElement("strong");
+              title.textContent = term;
+              popover.appendChild(title);
+              popover.appendChild(document.createTextNode(glossary[term]));
+              popover.style.display = "block";
+
+              var rect = span.getBoundingClientRect();
+              var width = popover.offsetWidth;
+              var left = Math.min(
+                Math.max(8, rect.left + rect.width / 2 - width / 2),
+                document.documentElement.clientWidth - width - 8
+              );
+              popover.style.left = (left + window.scrollX) + "px";
+              popover.style.top = (rect.bottom + window.scrollY + 6) + "px";
+            }
+
+            document.addEventListener("click", function(event) {
+              var span = event.target.closest && event.target.closest(".glossary-term");
+              if (span) {
+                showDefinition(span);
+              } else if (!popover.contains(event.target)) {
+                popover.style.display = "none";
+              }
+            });
+
+            highlightTerms();
+
             function computeContext(range, contextRadius) {
               if (!range) return "";
               const container = document.body;
@@ -0,0 +1,120 @@
+import React, { useMemo, useState } from "react";
+import { StyleSheet, TouchableOpacity, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { ThemedText } from "@/components/themed-text";
+import { Colors } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { PrimerGlossary } from "@/utils/api";
+import { glossaryEntries } from "@/utils/glossary";
+
+interface LessonGlossaryCardProps {
+  glossary: PrimerGlossary;
+  defaultExpanded?: boolean;
+}
+
+export default function LessonGlossaryCard({
+  glossary,
+  defaultExpanded = true,
+}: LessonGlossaryCardProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme];
+  const [expanded, setExpanded] = useState(defaultExpanded);
+  const entries = useMemo(() => glossaryEntries(glossary), [glossary]);
+
+  if (entries.length === 0) return null;
+
+  return (
+    <View
+      style={[
+        styles.card,
+        {
+          backgroundColor: colors.panel,
+          borderColor: colors.border,
+          borderLeftColor: colors.primary,
+        },
+      ]}
+    >
+      <TouchableOpacity
+        style={styles.header}
+        onPress={() => setExpanded((value) => !value)}
+        activeOpacity={0.85}
+      >
+        <View style={styles.headerLabel}>
+          <Ionicons name="book-outline" size={16} color={colors.primary} />
+          <ThemedText style={[styles.headerText, { color: colors.primary }]}>
+            KEY TERMS
+          </ThemedText>
+        </View>
+
+        <Ionicons
+          name={expanded ? "chevron-up" : "chevron-down"}
+          size={18}
+          color={colors.textSecondary}
+        />
+      </TouchableOpacity>
+
+      {expanded ? (
+        <View style={styles.body}>
+          {entries.map(({ term, definition }) => (
+            <View key={term} style={styles.entry}>
+              <ThemedText type="defaultSemiBold" style={styles.term}>
+                {term}
+              </ThemedText>
+              <ThemedText
+                style={[styles.definition, { color: colors.textSecondary }]}
+              >
+                {definition}
+              </ThemedText>
+            </View>
+          ))}
+          <ThemedText style={[styles.hint, { color: colors.textSecondary }]}>
+            Underlined terms in the lesson can be tapped for their meaning.
+          </ThemedText>
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderWidth: 1,
+    borderLeftWidth: 3,
+    borderRadius: 12,
+    padding: 14,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  headerLabel: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  headerText: {
+    fontSize: 15,
+    fontWeight: "700",
+    letterSpacing: 0.4,
+  },
+  body: {
+    marginTop: 12,
+    gap: 12,
+  },
+  entry: {
+    gap: 2,
+  },
+  term: {
+    fontSize: 16,
+    lineHeight: 22,
+  },
+  definition: {
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  hint: {
+    fontSize: 12,
+    lineHeight: 16,
+  },
+});
@@ -1,18 +1,48 @@
 import React, { useEffect, useMemo, useState } from "react";
-import { StyleSheet, TouchableOpacity, View } from "react-native";
+import {
+  ActivityIndicator,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { ThemedText } from "@/components/themed-text";
 import { Colors } from "@/constants/theme";
 import { useColorScheme } from "@/hooks/use-color-scheme";
+import { PersonalizedPrimerMetadata } from "@/utils/api";
 
 interface LessonPrimerCardProps {
   baselineBullets: string[];
   personalizedBullets: string[];
+  /** Latest progress message from the primer stream */
+  personalizedStatus?: string | null;
+  /** Cache state of the personalized primer, once known */
+  personalizedMetadata?: PersonalizedPrimerMetadata | null;
   personalizedLoading: boolean;
   personalizedUnavailable: boolean;
+  /** Regenerate the personalized primer; the action is hidden when omitted */
+  onRefreshPersonalized?: () => void;
+  canRefreshPersonalized?: boolean;
+  /** Epoch ms when refreshing is allowed again (0 = now) */
+  personalizedRefreshAvailableAt?: number;
   defaultExpanded?: boolean;
 }
 
+function formatGeneratedAt(generatedAt: string | null) {
+  const time = generatedAt ? Date.parse(generatedAt) : NaN;
+  if (!Number.isFinite(time)) return null;
+  const minutes = Math.round((Date.now() - time) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return `on ${new Date(time).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  })}`;
+}
+
 function BulletList({
   items,
   bulletColor,
@@ -39,8 +69,13 @@ function BulletList({
 export default function LessonPrimerCard({
   baselineBullets,
   personalizedBullets,
+  personalizedStatus,
+  personalizedMetadata,
   personalizedLoading,
   personalizedUnavailable,
+  onRefreshPersonalized,
+  canRefreshPersonalized = false,
+  personalizedRefreshAvailableAt = 0,
   defaultExpanded = true,
 }: LessonPrimerCardProps) {
   const colorScheme = useColorScheme();
@@ -57,6 +92,24 @@ export default function LessonPrimerCard({
     return personalizedUnavailable;
   }, [personalizedBullets.length, personalizedLoading, personalizedUnavailable]);
 
+  const generatedNote = useMemo(() => {
+    if (!personalizedMetadata || personalizedBullets.length === 0) return null;
+    const generated = formatGeneratedAt(personalizedMetadata.generated_at);
+    if (generated) return `Generated ${generated}`;
+    return personalizedMetadata.from_cache
+      ? "Saved from an earlier visit"
+      : "Just generated for you";
+  }, [personalizedBullets.length, personalizedMetadata]);
+  const isStale = Boolean(
+    personalizedMetadata?.stale && personalizedBullets.length > 0
+  );
+
+  const refreshLabel = useMemo(() => {
+    const remaining = personalizedRefreshAvailableAt - Date.now();
+    if (canRefreshPersonalized || remaining <= 0) return "Refresh for me";
+    return `Refresh in ${Math.ceil(remaining / 60000)} min`;
+  }, [canRefreshPersonalized, personalizedRefreshAvailableAt]);
+
   return (
     <View
       style={[
@@ -103,10 +156,54 @@ export default function LessonPrimerCard({
               </ThemedText>
             </View>
 
-            {personalizedLoading && personalizedBullets.length === 0 ? (
-              <ThemedText style={[styles.stateText, { color: colors.textSecondary }]}>
-                Preparing personalized primers...
-              </ThemedText>
+            {!personalizedLoading && (generatedNote || onRefreshPersonalized) ? (
+              <View style={styles.metaRow}>
+                <View style={styles.metaText}>
+                  {generatedNote ? (
+                    <ThemedText
+                      style={[styles.noteText, { color: colors.textSecondary }]}
+                    >
+                      {generatedNote}
+                    </ThemedText>
+                  ) : null}
+                  {isStale ? (
+                    <View style={styles.staleRow}>
+                      <Ionicons
+                        name="alert-circle-outline"
+                        size={13}
+                        color={colors.primary}
+                      />
+                      <ThemedText
+                        style={[styles.noteText, { color: colors.primary }]}
+                      >
+                        Out of date with your recent progress
+                      </ThemedText>
+                    </View>
+                  ) : null}
+                </View>
+
+                {onRefreshPersonalized ? (
+                  <TouchableOpacity
+                    style={[
+                      styles.refreshButton,
+                      {
+                        borderColor: colors.border,
+                        opacity: canRefreshPersonalized ? 1 : 0.5,
+                      },
+                    ]}
+                    onPress={onRefreshPersonalized}
+                    disabled={!canRefreshPersonalized}
+                    activeOpacity={0.7}
+                  >
+                    <Ionicons name="refresh" size={13} color={colors.primary} />
+                    <ThemedText
+                      style={[styles.refreshText, { color: colors.primary }]}
+                    >
+                      {refreshLabel}
+                    </ThemedText>
+                  </TouchableOpacity>
+                ) : null}
+              </View>
             ) : null}
 
             {personalizedBullets.length > 0 ? (
@@ -117,6 +214,19 @@ export default function LessonPrimerCard({
               />
             ) : null}
 
+            {/* Bullets are revealed as they're written; the status stays below them */}
+            {personalizedLoading &&
+            (personalizedStatus || personalizedBullets.length === 0) ? (
+              <View style={styles.statusRow}>
+                <ActivityIndicator size="small" color={colors.textSecondary} />
+                <ThemedText
+                  style={[styles.statusText, { color: colors.textSecondary }]}
+                >
+                  {personalizedStatus || "Preparing personalized primers..."}
+                </ThemedText>
+              </View>
+            ) : null}
+
             {shouldShowFallback ? (
               <ThemedText style={[styles.stateText, { color: colors.textSecondary }]}>
                 No recommended personalized primers for this lesson.
@@ -188,8 +298,51 @@ const styles = StyleSheet.create({
     fontSize: 16,
     lineHeight: 24,
   },
+  metaRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginTop: -4,
+  },
+  metaText: {
+    flex: 1,
+    gap: 2,
+  },
+  staleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  noteText: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  refreshButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  refreshText: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
   stateText: {
     fontSize: 15,
     lineHeight: 22,
   },
+  statusRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  statusText: {
+    flex: 1,
+    fontSize: 14,
+    lineHeight: 20,
+    fontStyle: "italic",
+  },
 });
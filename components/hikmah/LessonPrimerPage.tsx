@@ -12,22 +12,36 @@ import { ThemedText } from "@/components/themed-text";
 import { Colors } from "@/constants/theme";
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import LessonPrimerCard from "@/components/hikmah/LessonPrimerCard";
+import LessonGlossaryCard from "@/components/hikmah/LessonGlossaryCard";
+import { PersonalizedPrimerMetadata, PrimerGlossary } from "@/utils/api";
 
 interface LessonPrimerPageProps {
   lessonTitle: string;
   baselineBullets: string[];
+  glossary?: PrimerGlossary;
   personalizedBullets: string[];
+  personalizedStatus?: string | null;
+  personalizedMetadata?: PersonalizedPrimerMetadata | null;
   personalizedLoading: boolean;
   personalizedUnavailable: boolean;
+  onRefreshPersonalized?: () => void;
+  canRefreshPersonalized?: boolean;
+  personalizedRefreshAvailableAt?: number;
   onStartLesson: () => void;
 }
 
 export default function LessonPrimerPage({
   lessonTitle,
   baselineBullets,
+  glossary,
   personalizedBullets,
+  personalizedStatus,
+  personalizedMetadata,
   personalizedLoading,
   personalizedUnavailable,
+  onRefreshPersonalized,
+  canRefreshPersonalized,
+  personalizedRefreshAvailableAt,
   onStartLesson,
 }: LessonPrimerPageProps) {
   const colorScheme = useColorScheme();
@@ -113,10 +127,20 @@ export default function LessonPrimerPage({
         <LessonPrimerCard
           baselineBullets={baselineBullets}
           personalizedBullets={personalizedBullets}
+          personalizedStatus={personalizedStatus}
+          personalizedMetadata={personalizedMetadata}
           personalizedLoading={personalizedLoading}
           personalizedUnavailable={personalizedUnavailable}
+          onRefreshPersonalized={onRefreshPersonalized}
+          canRefreshPersonalized={canRefreshPersonalized}
+          personalizedRefreshAvailableAt={personalizedRefreshAvailableAt}
           defaultExpanded={true}
         />
+        {glossary ? (
+          <View style={styles.glossary}>
+            <LessonGlossaryCard glossary={glossary} />
+          </View>
+        ) : null}
       </Animated.View>
 
       <Animated.View
@@ -181,6 +205,9 @@ const styles = StyleSheet.create({
     fontSize: 15,
     lineHeight: 22,
   },
+  glossary: {
+    marginTop: 18,
+  },
   footer: {
     marginTop: 4,
     gap: 10,
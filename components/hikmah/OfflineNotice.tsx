@@ -0,0 +1,87 @@
+import React from "react";
+import { StyleSheet, TouchableOpacity, View, ViewStyle } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { ThemedText } from "@/components/themed-text";
+import { Colors } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+
+interface OfflineNoticeProps {
+  /** Epoch ms the offline copy was saved (0/undefined if unknown) */
+  savedAt?: number;
+  onRetry?: () => void;
+  style?: ViewStyle;
+}
+
+function formatSavedAt(savedAt?: number) {
+  if (!savedAt) return null;
+  return new Date(savedAt).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+/**
+ * Shown while a Hikmah screen renders its saved offline copy
+ */
+export default function OfflineNotice({
+  savedAt,
+  onRetry,
+  style,
+}: OfflineNoticeProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme];
+  const savedOn = formatSavedAt(savedAt);
+
+  return (
+    <View
+      style={[
+        styles.container,
+        { backgroundColor: colors.panel2, borderColor: colors.border },
+        style,
+      ]}
+    >
+      <Ionicons
+        name="cloud-offline-outline"
+        size={16}
+        color={colors.textSecondary}
+      />
+      <ThemedText
+        style={[styles.text, { color: colors.textSecondary }]}
+        numberOfLines={2}
+      >
+        {savedOn
+          ? `Offline – showing your copy saved ${savedOn}. It may be out of date.`
+          : "Offline – showing a saved copy. It may be out of date."}
+      </ThemedText>
+      {onRetry ? (
+        <TouchableOpacity onPress={onRetry} activeOpacity={0.7}>
+          <ThemedText style={[styles.retry, { color: colors.primary }]}>
+            Retry
+          </ThemedText>
+        </TouchableOpacity>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  text: {
+    flex: 1,
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  retry: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+});
@@ -63,7 +63,9 @@ export default function TreeCard({ tree, style }: TreeCardProps) {
             ))}
           </View>
           <ThemedText style={[styles.count, { color: colors.textSecondary }]}>
-            {total} {total === 1 ? "lesson" : "lessons"}
+            {tree.lessons
+              ? `${total} ${total === 1 ? "lesson" : "lessons"}`
+              : "Loading lessons…"}
           </ThemedText>
         </View>
 
@@ -18,25 +18,15 @@ import {
 import { Ionicons } from "@expo/vector-icons";
 import { Colors } from "@/constants/theme";
 import { useColorScheme } from "@/hooks/use-color-scheme";
-
-interface ReferenceMetadata {
-  text?: string;
-  text_ar?: string;
-  author?: string;
-  reference?: string;
-  collection?: string;
-  volume?: string;
-  book_number?: string;
-  book_title?: string;
-  chapter_number?: string;
-  chapter_title?: string;
-  hadith_no?: string;
-  grade_en?: string;
-}
+import {
+  Reference,
+  ReferenceSect,
+  formatReference,
+} from "@/utils/references";
 
 interface ReferenceItemProps {
-  reference: ReferenceMetadata;
-  type: "shia" | "sunni";
+  reference: Reference;
+  type: ReferenceSect;
   animationDelay?: number;
 }
 
@@ -71,37 +61,8 @@ export default function ReferenceItem({
     ]).start();
   }, [animationDelay]);
 
-  const metadata = reference || {};
-  const en = (reference?.text || "").trim();
-  const ar = (reference?.text_ar || "").trim();
-
-  // Build condensed preview with essential metadata
-  const buildMetadataLine = () => {
-    const parts = [];
-    
-    // Primary identifiers
-    if (metadata.collection) parts.push(metadata.collection);
-    if (metadata.author) parts.push(metadata.author);
-    if (metadata.hadith_no) parts.push(`Hadith #${metadata.hadith_no}`);
-    
-    return parts.filter(Boolean).join(" • ");
-  };
-
-  const buildSecondaryLine = () => {
-    const parts = [];
-    
-    // Secondary details
-    if (metadata.chapter_number) parts.push(`Ch. ${metadata.chapter_number}`);
-    if (metadata.chapter_title) parts.push(metadata.chapter_title);
-    if (metadata.book_title) parts.push(metadata.book_title);
-    if (metadata.volume) parts.push(`Vol. ${metadata.volume}`);
-    
-    return parts.filter(Boolean).join(" • ");
-  };
-
-  const metadataLine1 = buildMetadataLine() || "Reference";
-  const metadataLine2 = buildSecondaryLine();
-  const textPreview = en ? en.substring(0, 80) : "No text available";
+  const formatted = formatReference(reference || {});
+  const { text: en, textAr: ar } = formatted;
 
   // Toggle expand/collapse with animation
   const handleToggle = () => {
@@ -111,26 +72,14 @@ export default function ReferenceItem({
     setIsExpanded(!isExpanded);
   };
 
-  const renderField = (label: string, value: any) => {
-    if (
-      !value ||
-      String(value).trim() === "" ||
-      String(value).trim() === "N/A" ||
-      String(value).trim() === "unspecified"
-    )
-      return null;
-
-    return (
-      <View style={styles.field}>
-        <Text style={[styles.fieldLabel, { color: colors.textSecondary }]}>
-          {label}
-        </Text>
-        <Text style={[styles.fieldValue, { color: colors.text }]}>
-          {String(value)}
-        </Text>
-      </View>
-    );
-  };
+  const renderField = ({ label, value }: { label: string; value: string }) => (
+    <View key={label} style={styles.field}>
+      <Text style={[styles.fieldLabel, { color: colors.textSecondary }]}>
+        {label}
+      </Text>
+      <Text style={[styles.fieldValue, { color: colors.text }]}>{value}</Text>
+    </View>
+  );
 
   return (
     <Animated.View
@@ -158,16 +107,7 @@ export default function ReferenceItem({
           <>
             {/* Metadata Grid */}
             <View style={styles.metadataGrid}>
-              {renderField("Author", metadata.author)}
-              {renderField("Reference", metadata.reference)}
-              {renderField("Source", metadata.collection)}
-              {renderField("Volume", metadata.volume)}
-              {renderField("Book number", metadata.book_number)}
-              {renderField("Book title", metadata.book_title)}
-              {renderField("Chapter number", metadata.chapter_number)}
-              {renderField("Chapter title", metadata.chapter_title)}
-              {renderField("Hadith number", metadata.hadith_no)}
-              {renderField("Authenticity", metadata.grade_en)}
+              {formatted.fields.map(renderField)}
             </View>
 
             {/* Text Section */}
@@ -215,19 +155,19 @@ export default function ReferenceItem({
                 numberOfLines={1}
                 ellipsizeMode="tail"
               >
-                {metadataLine1}
+                {formatted.title}
               </Text>
               
               {/* Line 2: Secondary metadata (if available) */}
-              {metadataLine2 && (
+              {formatted.subtitle ? (
                 <Text
                   style={[styles.condensedLine2, { color: colors.textSecondary }]}
                   numberOfLines={1}
                   ellipsizeMode="tail"
                 >
-                  {metadataLine2}
+                  {formatted.subtitle}
                 </Text>
-              )}
+              ) : null}
               
               {/* Line 3: Text preview */}
               <Text
@@ -235,7 +175,7 @@ export default function ReferenceItem({
                 numberOfLines={1}
                 ellipsizeMode="tail"
               >
-                {textPreview}
+                {formatted.preview}
               </Text>
             </View>
             
@@ -22,9 +22,13 @@ import { ThemedText } from "@/components/themed-text";
 import { Colors } from "@/constants/theme";
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import ReferenceItem from "./ReferenceItem";
+import type { ErrorDescription } from "@/utils/errorMessages";
+import type { ReferenceResults, ReferenceSect } from "@/utils/references";
 
 interface ReferencesContainerProps {
-  results: any;
+  results: ReferenceResults | null;
+  error?: ErrorDescription | null;
+  onErrorAction?: () => void;
   isLoading: boolean;
   searchPerformed: boolean;
   submittedQuery: string;
@@ -34,6 +38,8 @@ interface ReferencesContainerProps {
 
 export default function ReferencesContainer({
   results,
+  error,
+  onErrorAction,
   isLoading,
   searchPerformed,
   submittedQuery,
@@ -44,7 +50,7 @@ export default function ReferencesContainer({
   const colors = Colors[colorScheme];
 
   // Tab state: 'shia' or 'sunni'
-  const [activeTab, setActiveTab] = useState<"shia" | "sunni">("shia");
+  const [activeTab, setActiveTab] = useState<ReferenceSect>("shia");
 
   // Pulsing animation for loading
   const pulseAnim = useRef(new Animated.Value(1)).current;
@@ -83,7 +89,7 @@ export default function ReferencesContainer({
 
   // Animate count text when tab changes or results load
   useEffect(() => {
-    if (results && (results.shia?.length > 0 || results.sunni?.length > 0)) {
+    if (results?.shia?.length || results?.sunni?.length) {
       // Reset animation values
       countTranslateX.setValue(-50);
       countOpacity.setValue(0);
@@ -165,8 +171,8 @@ export default function ReferencesContainer({
     );
   }
 
-  // No results found
-  if (!results || (!results.shia?.length && !results.sunni?.length)) {
+  // Error state
+  if (error) {
     return (
       <TouchableWithoutFeedback onPress={Keyboard.dismiss}>
         <View
@@ -175,18 +181,34 @@ export default function ReferencesContainer({
             { paddingBottom: bottomPadding, paddingTop: topPadding },
           ]}
         >
-          <ThemedText
-            style={[styles.emptyText, { color: colors.textSecondary }]}
+          <View
+            style={[
+              styles.errorBox,
+              { backgroundColor: colors.panel2, borderColor: colors.border },
+            ]}
           >
-            No references found for your query.
-          </ThemedText>
+            <ThemedText style={{ color: "#ff6b6b" }}>{error.message}</ThemedText>
+            {error.actionLabel && onErrorAction ? (
+              <TouchableOpacity
+                onPress={onErrorAction}
+                activeOpacity={0.7}
+                style={styles.errorAction}
+              >
+                <ThemedText
+                  style={[styles.errorActionText, { color: colors.primary }]}
+                >
+                  {error.actionLabel}
+                </ThemedText>
+              </TouchableOpacity>
+            ) : null}
+          </View>
         </View>
       </TouchableWithoutFeedback>
     );
   }
 
-  // Error state
-  if (results.error) {
+  // No results found
+  if (!results || (!results.shia?.length && !results.sunni?.length)) {
     return (
       <TouchableWithoutFeedback onPress={Keyboard.dismiss}>
         <View
@@ -195,16 +217,11 @@ export default function ReferencesContainer({
             { paddingBottom: bottomPadding, paddingTop: topPadding },
           ]}
         >
-          <View
-            style={[
-              styles.errorBox,
-              { backgroundColor: colors.panel2, borderColor: colors.border },
-            ]}
+          <ThemedText
+            style={[styles.emptyText, { color: colors.textSecondary }]}
           >
-            <ThemedText style={{ color: "#ff6b6b" }}>
-              {results.error}
-            </ThemedText>
-          </View>
+            No references found for your query.
+          </ThemedText>
         </View>
       </TouchableWithoutFeedback>
     );
@@ -345,7 +362,7 @@ export default function ReferencesContainer({
       {/* Active Tab References */}
       {activeRefs.length > 0 && (
         <View style={styles.section}>
-          {activeRefs.map((ref: any, idx: number) => (
+          {activeRefs.map((ref, idx) => (
             <ReferenceItem
               key={`${activeTab}-${idx}`}
               reference={ref}
@@ -413,6 +430,14 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     width: "100%",
   },
+  errorAction: {
+    marginTop: 12,
+    alignSelf: "flex-start",
+  },
+  errorActionText: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
   queryCard: {
     padding: 16,
     borderRadius: 16,
@@ -0,0 +1,226 @@
+/**
+ * Developer section of Settings (internal builds)
+ * Points the app at another backend: a preset (local, staging, production)
+ * or a custom URL. The choice is health-checked before it's applied.
+ */
+
+import React, { useState } from "react";
+import { StyleSheet, TextInput, TouchableOpacity, View } from "react-native";
+import { ThemedView } from "@/components/themed-view";
+import { ThemedText } from "@/components/themed-text";
+import { Colors } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  API_ENVIRONMENT_PRESETS,
+  ApiEnvironmentId,
+  ApiEnvironmentSelection,
+  getApiEnvironment,
+} from "@/utils/config";
+import {
+  applyApiEnvironment,
+  changesAuthConfig,
+  getApiEnvironmentSelection,
+  validateApiEnvironment,
+} from "@/utils/apiEnvironment";
+
+type OptionId = ApiEnvironmentId | "default";
+
+export default function DeveloperSection() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme];
+  const { status, signOut } = useAuth();
+  const [current, setCurrent] = useState(getApiEnvironment);
+  const [selected, setSelected] = useState<OptionId>(
+    () => getApiEnvironmentSelection()?.id ?? "default"
+  );
+  const [customUrl, setCustomUrl] = useState(
+    () => getApiEnvironmentSelection()?.customUrl ?? ""
+  );
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const options: { id: OptionId; label: string; description: string }[] = [
+    {
+      id: "default",
+      label: "Build default",
+      description: "Whatever this build was configured with",
+    },
+    ...API_ENVIRONMENT_PRESETS.map((preset) => ({
+      id: preset.id,
+      label: preset.label,
+      description: preset.apiBaseUrl ?? "Not configured in this build",
+    })),
+    { id: "custom", label: "Custom", description: "Any backend URL" },
+  ];
+
+  const handleApply = async () => {
+    if (busy) return;
+    const next: ApiEnvironmentSelection | null =
+      selected === "default"
+        ? null
+        : selected === "custom"
+          ? { id: "custom", customUrl }
+          : { id: selected };
+
+    setError(null);
+    setBusy(true);
+    try {
+      const environment = await validateApiEnvironment(next);
+      // Tokens from another Cognito pool are useless: sign out against the old one first
+      if (changesAuthConfig(environment) && status === "signedIn") {
+        await signOut();
+      }
+      await applyApiEnvironment(next, environment);
+      setCurrent(environment);
+    } catch (e: any) {
+      setError(e?.message || String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <ThemedView style={styles.section}>
+      <ThemedText type="subtitle" style={styles.sectionTitle}>
+        Developer
+      </ThemedText>
+      <ThemedText
+        style={[styles.sectionDescription, { color: colors.textSecondary }]}
+      >
+        Backend: {current.label} · {current.apiBaseUrl}
+      </ThemedText>
+
+      <View style={styles.optionsContainer}>
+        {options.map((option) => {
+          const isSelected = selected === option.id;
+          const unavailable = API_ENVIRONMENT_PRESETS.some(
+            (preset) => preset.id === option.id && !preset.apiBaseUrl
+          );
+          return (
+            <TouchableOpacity
+              key={option.id}
+              style={[
+                styles.option,
+                {
+                  backgroundColor: colors.panel,
+                  borderColor: isSelected ? colors.primary : colors.border,
+                  borderWidth: isSelected ? 2 : 1,
+                  opacity: unavailable ? 0.5 : 1,
+                },
+              ]}
+              onPress={() => setSelected(option.id)}
+              disabled={unavailable || busy}
+              activeOpacity={0.7}
+            >
+              <ThemedText type="defaultSemiBold" style={styles.optionLabel}>
+                {option.label}
+              </ThemedText>
+              <ThemedText
+                style={[styles.optionDescription, { color: colors.textSecondary }]}
+                numberOfLines={1}
+              >
+                {option.description}
+              </ThemedText>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {selected === "custom" ? (
+        <TextInput
+          value={customUrl}
+          onChangeText={setCustomUrl}
+          placeholder="https://api.example.com"
+          placeholderTextColor={colors.textSecondary}
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+          editable={!busy}
+          style={[
+            styles.input,
+            {
+              color: colors.text,
+              backgroundColor: colors.panel,
+              borderColor: colors.border,
+            },
+          ]}
+        />
+      ) : null}
+
+      {error ? (
+        <ThemedText style={[styles.errorText, { color: "#ef4444" }]}>
+          {error}
+        </ThemedText>
+      ) : null}
+
+      <TouchableOpacity
+        style={[
+          styles.primaryButton,
+          { backgroundColor: colors.primary, opacity: busy ? 0.6 : 1 },
+        ]}
+        onPress={handleApply}
+        disabled={busy}
+        activeOpacity={0.8}
+      >
+        <ThemedText style={styles.primaryButtonText}>
+          {busy ? "Checking backend…" : "Check & apply"}
+        </ThemedText>
+      </TouchableOpacity>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    padding: 20,
+    paddingTop: 8,
+  },
+  sectionTitle: {
+    marginBottom: 8,
+  },
+  sectionDescription: {
+    marginBottom: 16,
+    fontSize: 14,
+  },
+  optionsContainer: {
+    gap: 8,
+  },
+  option: {
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+  },
+  optionLabel: {
+    fontSize: 15,
+    marginBottom: 2,
+  },
+  optionDescription: {
+    fontSize: 12,
+  },
+  input: {
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 14,
+    marginTop: 12,
+  },
+  errorText: {
+    fontSize: 13,
+    marginTop: 12,
+  },
+  primaryButton: {
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    alignItems: "center",
+    justifyContent: "center",
+    marginTop: 12,
+  },
+  primaryButtonText: {
+    color: "#fff",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+});
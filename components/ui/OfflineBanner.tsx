@@ -0,0 +1,77 @@
+/**
+ * App-wide offline banner
+ * Floats under the status bar while the backend is unreachable and
+ * shows how many writes are waiting to sync
+ */
+
+import React from "react";
+import { StyleSheet, TouchableOpacity, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { ThemedText } from "@/components/themed-text";
+import { Colors } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { useConnectivity } from "@/hooks/useConnectivity";
+
+export default function OfflineBanner() {
+  const insets = useSafeAreaInsets();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme];
+  const { isOffline, pendingWrites, checkNow } = useConnectivity();
+
+  if (!isOffline) return null;
+
+  const pendingText =
+    pendingWrites > 0
+      ? ` · ${pendingWrites} ${pendingWrites === 1 ? "change" : "changes"} will sync`
+      : "";
+
+  return (
+    <View
+      pointerEvents="box-none"
+      style={[styles.container, { top: insets.top + 4 }]}
+    >
+      <TouchableOpacity
+        onPress={checkNow}
+        activeOpacity={0.8}
+        style={[
+          styles.banner,
+          { backgroundColor: colors.panel, borderColor: colors.border },
+        ]}
+      >
+        <Ionicons name="cloud-offline-outline" size={16} color={colors.text} />
+        <ThemedText style={[styles.text, { color: colors.text }]}>
+          {`You're offline${pendingText}`}
+        </ThemedText>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    alignItems: "center",
+    zIndex: 100,
+    elevation: 100,
+  },
+  banner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 999,
+    borderWidth: 1,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 6,
+  },
+  text: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+});
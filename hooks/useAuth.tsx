@@ -17,6 +17,12 @@ import {
   signInWithCognitoHostedUI,
   signOut as authSignOut,
 } from "@/utils/auth";
+import { clearQueryCache } from "@/utils/queryCache";
+import { clearDeferredWrites } from "@/utils/deferredWrites";
+import { clearOfflineCopies } from "@/utils/hikmahStorage";
+import { createLogger } from "@/utils/logger";
+
+const log = createLogger("auth");
 
 type AuthStatus = "loading" | "signedOut" | "signedIn";
 
@@ -64,7 +70,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         setStatus("signedOut");
       }
     } catch (e) {
-      console.warn("Auth refresh failed:", e);
+      log.warn("Auth refresh failed:", e);
       setUser(null);
       setAccessToken(null);
       setStatus("signedOut");
@@ -82,7 +88,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         }
         await refresh();
       } catch (e) {
-        console.warn("Auth restore failed:", e);
+        log.warn("Auth restore failed:", e);
         setStatus("signedOut");
       }
     })();
@@ -104,6 +110,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const signOut = async (opts?: { global?: boolean }) => {
     setStatus("loading");
     await authSignOut(opts);
+    // Cached responses, their offline copies and queued writes may be
+    // user-specific
+    clearQueryCache();
+    await clearOfflineCopies();
+    await clearDeferredWrites();
     setUser(null);
     setAccessToken(null);
     setStatus("signedOut");
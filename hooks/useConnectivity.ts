@@ -0,0 +1,46 @@
+import { useEffect, useState } from "react";
+import {
+  ConnectivityStatus,
+  checkConnectivity,
+  getConnectivityStatus,
+  subscribeConnectivity,
+} from "../utils/connectivity";
+import {
+  getDeferredWriteCount,
+  subscribeDeferredWrites,
+} from "../utils/deferredWrites";
+
+/**
+ * Current backend reachability plus the number of writes waiting to sync
+ */
+export function useConnectivity() {
+  const [status, setStatus] = useState<ConnectivityStatus>(
+    getConnectivityStatus
+  );
+  const [pendingWrites, setPendingWrites] = useState(0);
+
+  useEffect(() => {
+    // Catch changes between the first render and subscribing
+    setStatus(getConnectivityStatus());
+    return subscribeConnectivity(setStatus);
+  }, []);
+
+  useEffect(() => {
+    let mounted = true;
+    getDeferredWriteCount().then((count) => {
+      if (mounted) setPendingWrites(count);
+    });
+    const unsubscribe = subscribeDeferredWrites(setPendingWrites);
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return {
+    status,
+    isOffline: status === "offline",
+    pendingWrites,
+    checkNow: checkConnectivity,
+  };
+}
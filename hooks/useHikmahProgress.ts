@@ -1,5 +1,9 @@
 import { useMemo, useState, useCallback, useEffect } from "react";
-import { getProgress, setProgress } from "../utils/hikmahStorage";
+import {
+  getProgress,
+  setProgress,
+  subscribeProgress,
+} from "../utils/hikmahStorage";
 import { HikmahTree } from "../utils/api";
 import { useFocusEffect } from "expo-router";
 
@@ -37,6 +41,12 @@ export function useHikmahProgress(tree: Partial<HikmahTree> | null) {
     return loadProgress();
   }, [loadProgress]);
 
+  // 📥 Reload when progress is written elsewhere (e.g. backend hydration)
+  useEffect(() => {
+    if (!treeId) return;
+    return subscribeProgress(treeId, loadProgress);
+  }, [treeId, loadProgress]);
+
   // 🔄 Reload progress when the screen comes into focus (e.g. returning from lesson)
   useFocusEffect(
     useCallback(() => {
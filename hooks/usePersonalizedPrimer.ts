@@ -0,0 +1,230 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  PersonalizedPrimerMetadata,
+  PersonalizedPrimerRequest,
+  getPersonalizedPrimer,
+  streamPersonalizedPrimer,
+} from "../utils/api";
+import { isAbortError } from "../utils/apiErrors";
+import { extractDraftBullets } from "../utils/primerDraft";
+import { createLogger } from "../utils/logger";
+import {
+  getPrimerRefreshAvailableAt,
+  recordPrimerRefresh,
+} from "../utils/primerRefresh";
+
+const log = createLogger("api");
+
+// Generation sends status/chunk events regularly; a silent stream is stuck
+const PRIMER_STREAM_IDLE_TIMEOUT_MS = 20000;
+
+/**
+ * Personalized primer for a lesson
+ * Streams first for live feedback; when the stream errors, times out or ends
+ * without bullets, asks the non-streaming endpoint for the same result.
+ * `refresh` regenerates the primer (force_refresh), at most once per
+ * cooldown per lesson; `refreshAvailableAt` is when the next one is allowed.
+ */
+export function usePersonalizedPrimer(
+  lessonId: string | undefined,
+  userId: string | undefined
+) {
+  const [bullets, setBullets] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [unavailable, setUnavailable] = useState(false);
+  const [metadata, setMetadata] = useState<PersonalizedPrimerMetadata | null>(
+    null
+  );
+  // Live feedback while the primer generates: status line + bullets being written
+  const [status, setStatus] = useState<string | null>(null);
+  const [draft, setDraft] = useState<string[]>([]);
+  const [refreshAvailableAt, setRefreshAvailableAt] = useState(0);
+  const [refreshCount, setRefreshCount] = useState(0);
+  // Set by refresh(), consumed by the next load
+  const forceRefreshRef = useRef(false);
+  const refreshPendingRef = useRef(false);
+
+  const parsedLessonId = Number(lessonId);
+  const hasLesson = Boolean(lessonId) && Number.isFinite(parsedLessonId);
+
+  useEffect(() => {
+    setRefreshAvailableAt(0);
+    if (!hasLesson || !userId) return;
+    let mounted = true;
+    getPrimerRefreshAvailableAt(userId, parsedLessonId).then((availableAt) => {
+      if (mounted) setRefreshAvailableAt(availableAt);
+    });
+    return () => {
+      mounted = false;
+    };
+  }, [hasLesson, parsedLessonId, userId]);
+
+  // Re-render when the cooldown ends so the action becomes available again
+  useEffect(() => {
+    const remaining = refreshAvailableAt - Date.now();
+    if (remaining <= 0) return;
+    const timer = setTimeout(() => setRefreshAvailableAt(0), remaining);
+    return () => clearTimeout(timer);
+  }, [refreshAvailableAt]);
+
+  useEffect(() => {
+    if (!hasLesson) return;
+    const forceRefresh = forceRefreshRef.current;
+    forceRefreshRef.current = false;
+
+    setBullets([]);
+    setMetadata(null);
+    setStatus(null);
+    setDraft([]);
+    setLoading(Boolean(userId));
+    setUnavailable(!userId);
+
+    if (!userId) return;
+
+    let mounted = true;
+    const abortController = new AbortController();
+    const request: PersonalizedPrimerRequest = {
+      user_id: userId,
+      lesson_id: parsedLessonId,
+      filter: true,
+      ...(forceRefresh ? { force_refresh: true } : {}),
+    };
+
+    const load = async () => {
+      let receivedBullet = false;
+      let streamMetadata = null as PersonalizedPrimerMetadata | null;
+      let hasError = false;
+      let modelOutput = "";
+      let draftKey = "";
+
+      try {
+        await streamPersonalizedPrimer(
+          request,
+          {
+            onStatus: (message) => {
+              if (!mounted || !message.trim()) return;
+              setStatus(message.trim());
+            },
+            onLlmChunk: (content) => {
+              if (!mounted) return;
+              modelOutput += content;
+              const next = extractDraftBullets(modelOutput);
+              // Most chunks only extend the last bullet; skip renders when nothing changed
+              const key = next.join("\n");
+              if (key === draftKey) return;
+              draftKey = key;
+              setDraft(next);
+            },
+            onBullet: ({ content }) => {
+              if (!mounted) return;
+              const cleaned = content.trim();
+              if (!cleaned) return;
+              receivedBullet = true;
+              setBullets((prev) =>
+                prev.includes(cleaned) ? prev : [...prev, cleaned]
+              );
+            },
+            onMetadata: (value) => {
+              streamMetadata = value;
+            },
+            onError: () => {
+              hasError = true;
+            },
+          },
+          {
+            signal: abortController.signal,
+            idleTimeoutMs: PRIMER_STREAM_IDLE_TIMEOUT_MS,
+          }
+        );
+      } catch (err) {
+        if (!mounted || isAbortError(err)) return;
+        hasError = true;
+        log.warn("⚠️ Personalized primer stream failed:", err);
+      }
+      if (!mounted) return;
+
+      if (!hasError && receivedBullet) {
+        setMetadata(streamMetadata);
+        setUnavailable(streamMetadata?.personalized_available === false);
+        return;
+      }
+
+      // The backend said there's nothing personal to show yet: don't ask again
+      if (!hasError && streamMetadata?.personalized_available === false) {
+        setMetadata(streamMetadata);
+        setUnavailable(true);
+        return;
+      }
+
+      log.info("🔁 Falling back to the non-streaming personalized primer");
+      setStatus(null);
+      // Parsed bullets replace the draft; an unusable draft shouldn't linger
+      setDraft([]);
+      try {
+        const primer = await getPersonalizedPrimer(request, {
+          signal: abortController.signal,
+        });
+        if (!mounted) return;
+        const { personalized_bullets, ...rest } = primer;
+        const cleaned = personalized_bullets
+          .map((bullet) => bullet.trim())
+          .filter(Boolean);
+        setBullets(cleaned);
+        setMetadata(rest);
+        setUnavailable(!rest.personalized_available || cleaned.length === 0);
+      } catch (err) {
+        if (!mounted || isAbortError(err)) return;
+        log.warn("⚠️ Personalized primer fallback failed:", err);
+        setBullets([]);
+        setUnavailable(true);
+      }
+    };
+
+    load().finally(() => {
+      if (!mounted) return;
+      setStatus(null);
+      setDraft([]);
+      setLoading(false);
+    });
+
+    return () => {
+      mounted = false;
+      abortController.abort();
+    };
+  }, [hasLesson, parsedLessonId, userId, refreshCount]);
+
+  const canRefresh =
+    Boolean(userId) && hasLesson && !loading && refreshAvailableAt === 0;
+
+  /** Regenerate the primer; returns false while rate limited or busy */
+  const refresh = useCallback(async () => {
+    // Taps while the refresh is being recorded must not start another one
+    if (!canRefresh || !userId || refreshPendingRef.current) return false;
+    refreshPendingRef.current = true;
+    try {
+      setRefreshAvailableAt(await recordPrimerRefresh(userId, parsedLessonId));
+    } finally {
+      refreshPendingRef.current = false;
+    }
+    forceRefreshRef.current = true;
+    setRefreshCount((count) => count + 1);
+    return true;
+  }, [canRefresh, parsedLessonId, userId]);
+
+  // Parsed bullets first, then any the model is still writing
+  const visibleBullets = useMemo(
+    () => [...bullets, ...draft.slice(bullets.length)],
+    [bullets, draft]
+  );
+
+  return {
+    bullets: visibleBullets,
+    status,
+    metadata,
+    loading,
+    unavailable,
+    canRefresh,
+    refreshAvailableAt,
+    refresh,
+  };
+}
@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useReducer, useRef } from "react";
+import {
+  DEFAULT_QUERY_TTL_MS,
+  QueryDefinition,
+  fetchQuery,
+  getQueryEntry,
+  isQueryStale,
+  subscribeQuery,
+} from "../utils/queryCache";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("api");
+
+/**
+ * Read a query from the shared cache.
+ * Returns cached data immediately and revalidates in the background
+ * once it is older than the query's TTL or has been invalidated.
+ * Pass null to skip (e.g. while route params are missing).
+ * `offlineSavedAt` is set while the data is a saved copy served offline.
+ */
+export function useQuery<T>(query: QueryDefinition<T> | null) {
+  const key = query?.key ?? null;
+  const ttlMs = query?.ttlMs ?? DEFAULT_QUERY_TTL_MS;
+  const queryRef = useRef(query);
+  queryRef.current = query;
+  const [, rerender] = useReducer((n: number) => n + 1, 0);
+
+  useEffect(() => {
+    if (!key) return;
+    return subscribeQuery(key, rerender);
+  }, [key]);
+
+  const entry = key ? getQueryEntry<T>(key) : undefined;
+  const updatedAt = entry?.updatedAt ?? 0;
+
+  // 🔁 Fetch on first use, and again whenever the entry goes stale/invalidated
+  useEffect(() => {
+    const current = queryRef.current;
+    if (!key || !current) return;
+    if (!isQueryStale(key, ttlMs) || getQueryEntry(key)?.promise) return;
+    fetchQuery(current).catch((err) =>
+      log.warn(`Query failed (${key}):`, err)
+    );
+  }, [key, ttlMs, updatedAt]);
+
+  const refetch = useCallback(() => {
+    const current = queryRef.current;
+    if (!current) return Promise.resolve(undefined);
+    return fetchQuery(current, { force: true }).catch((err) => {
+      log.warn(`Query refetch failed (${current.key}):`, err);
+      return undefined;
+    });
+  }, []);
+
+  const data = entry?.data;
+  const isFetching = Boolean(entry?.promise);
+  const error = entry?.error;
+
+  return {
+    data,
+    error: isFetching ? undefined : error,
+    // Nothing to show yet: first load, or retrying after a failure
+    isLoading: Boolean(key) && data === undefined && (isFetching || !error),
+    isFetching,
+    offlineSavedAt: entry?.offlineSavedAt,
+    refetch,
+  };
+}
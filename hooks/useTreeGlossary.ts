@@ -0,0 +1,75 @@
+import { useEffect, useState } from "react";
+import { Lesson } from "../utils/api";
+import { baselinePrimerQuery } from "../utils/hikmahQueries";
+import { fetchQuery } from "../utils/queryCache";
+import { TreeGlossaryEntry, mergeLessonGlossaries } from "../utils/glossary";
+import { createTaskQueue } from "../utils/taskQueue";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("api");
+
+// Large trees would otherwise request every lesson's primer at once
+const PRIMER_LOAD_CONCURRENCY = 3;
+
+/**
+ * Glossary terms across every lesson of a tree
+ * Baseline primers go through the shared cache, so lessons already opened in
+ * the reader don't refetch. Lessons whose primer can't be loaded are skipped
+ * and counted in `missingCount`.
+ */
+export function useTreeGlossary(lessons: Lesson[]) {
+  const [entries, setEntries] = useState<TreeGlossaryEntry[]>([]);
+  const [loading, setLoading] = useState(lessons.length > 0);
+  const [missingCount, setMissingCount] = useState(0);
+
+  useEffect(() => {
+    if (lessons.length === 0) {
+      setEntries([]);
+      setMissingCount(0);
+      setLoading(false);
+      return;
+    }
+
+    let mounted = true;
+    setLoading(true);
+
+    const queue = createTaskQueue(PRIMER_LOAD_CONCURRENCY);
+    Promise.allSettled(
+      lessons.map((lesson) =>
+        queue.enqueue(String(lesson.id), () =>
+          fetchQuery(baselinePrimerQuery(lesson.id))
+        )
+      )
+    ).then((results) => {
+      if (!mounted) return;
+      const items: Parameters<typeof mergeLessonGlossaries>[0] = [];
+      let missing = 0;
+      results.forEach((result, index) => {
+        if (result.status === "rejected") {
+          missing += 1;
+          log.warn(
+            `⚠️ Glossary unavailable for lesson ${lessons[index].id}:`,
+            result.reason
+          );
+          return;
+        }
+        if (result.value) {
+          items.push({
+            lesson: lessons[index],
+            glossary: result.value.glossary ?? {},
+          });
+        }
+      });
+      setEntries(mergeLessonGlossaries(items));
+      setMissingCount(missing);
+      setLoading(false);
+    });
+
+    return () => {
+      mounted = false;
+      queue.clear();
+    };
+  }, [lessons]);
+
+  return { entries, loading, missingCount };
+}
@@ -9,13 +9,36 @@ import AsyncStorage from "@react-native-async-storage/async-storage";
 import uuid from "react-native-uuid";
 import { CONFIG } from "./config";
 import { STORAGE_KEYS } from "./constants";
-import { getValidAccessToken } from "./auth";
+import { createSseParser, streamRequest } from "./streamClient";
+import { createChatStreamParser } from "./chatStream";
+import { apiFetch } from "./httpClient";
+import { NotFoundError, isAbortError, toApiError } from "./apiErrors";
+import { enqueueWrite, registerDeferredWriteHandler } from "./deferredWrites";
+import {
+  ReferenceSearchResult,
+  parseBaselinePrimer,
+  parseChatTitle,
+  parseHikmahTree,
+  parseHikmahTrees,
+  parseLesson,
+  parseLessonContentList,
+  parseLessons,
+  parsePersonalizedPrimer,
+  parsePrimerBullet,
+  parsePrimerMetadata,
+  parseReferenceSearchResult,
+  parseUserProgress,
+  parseUserProgressList,
+} from "./apiValidators";
+import { createLogger } from "./logger";
 
-const API_BASE_URL = CONFIG.API_BASE_URL;
 const SESSION_KEY = STORAGE_KEYS.SESSION_ID;
 
+const log = createLogger("api");
+const chatLog = createLogger("chat");
+
 // Helpful when debugging real-device networking (phone must be able to reach this host:port)
-console.log("🌐 API_BASE_URL =", API_BASE_URL);
+log.info("🌐 API_BASE_URL =", CONFIG.API_BASE_URL);
 
 // ---- Types ----
 
@@ -67,9 +90,13 @@ export interface ElaborationPayload {
   user_id: string;
 }
 
+/** Term → definition, as authored for a lesson's baseline primer */
+export type PrimerGlossary = Record<string, string>;
+
 export interface BaselinePrimerResponse {
   lesson_id: number;
   baseline_bullets: string[];
+  glossary: PrimerGlossary;
   updated_at: string | null;
 }
 
@@ -87,8 +114,15 @@ export interface PersonalizedPrimerMetadata {
   personalized_available: boolean;
 }
 
+export interface PersonalizedPrimerResponse extends PersonalizedPrimerMetadata {
+  personalized_bullets: string[];
+}
+
 type PrimerStreamHandlers = {
+  /** Progress line, e.g. "Analyzing your learning history…" */
   onStatus?: (message: string) => void;
+  /** Raw model output as it's generated (see utils/primerDraft.ts) */
+  onLlmChunk?: (content: string) => void;
   onBullet?: (bullet: { index: number; content: string }) => void;
   onMetadata?: (metadata: PersonalizedPrimerMetadata) => void;
   onError?: (payload: Record<string, unknown>) => void;
@@ -107,19 +141,16 @@ export async function getOrCreateSessionId(): Promise<string> {
     if (!id) {
       id = uuid.v4() as string;
       await AsyncStorage.setItem(SESSION_KEY, id);
-      console.log("🆕 Created new session:", id.substring(0, 8) + "...");
+      log.info("🆕 Created new session");
     } else {
-      console.log("📋 Using existing session:", id.substring(0, 8) + "...");
+      log.debug("📋 Using existing session");
     }
     return id;
   } catch (e) {
-    console.error("❌ Error getting session ID:", e);
+    log.error("❌ Error getting session ID:", e);
     // Fallback to memory-only session ID
     const fallbackId = uuid.v4() as string;
-    console.warn(
-      "⚠️ Using memory-only session (storage failed):",
-      fallbackId.substring(0, 8) + "..."
-    );
+    log.warn("⚠️ Using memory-only session (storage failed)");
     return fallbackId;
   }
 }
@@ -131,136 +162,92 @@ export async function startNewConversation(): Promise<string> {
   try {
     const id = uuid.v4() as string;
     await AsyncStorage.setItem(SESSION_KEY, id);
-    console.log("🔄 New conversation started:", id.substring(0, 8) + "...");
+    log.info("🔄 New conversation started");
     return id;
   } catch (e) {
-    console.error("❌ Error starting new conversation:", e);
+    log.error("❌ Error starting new conversation:", e);
     const fallbackId = uuid.v4() as string;
-    console.warn("⚠️ Using memory-only session for new conversation");
+    log.warn("⚠️ Using memory-only session for new conversation");
     return fallbackId;
   }
 }
 
-// ---- API calls ----
-
-async function withAuthHeaders(
-  headers: Record<string, string> = {}
-): Promise<Record<string, string>> {
+/**
+ * Make a past conversation the current session again (kept across restarts)
+ */
+export async function resumeConversation(sessionId: string): Promise<void> {
   try {
-    const token = await getValidAccessToken();
-    if (!token) return headers;
-    return { ...headers, Authorization: `Bearer ${token}` };
-  } catch {
-    return headers;
+    await AsyncStorage.setItem(SESSION_KEY, sessionId);
+    log.info("📂 Conversation resumed");
+  } catch (e) {
+    log.error("❌ Error resuming conversation:", e);
   }
 }
 
+// ---- API calls ----
+
+export { parseStreamResponse } from "./chatStream";
+
 /**
- * Send a chat message with TRUE streaming using XMLHttpRequest
+ * Send a chat message with TRUE streaming (see utils/streamClient.ts)
  * Works in Expo Go without native modules!
  * @param userQuery - The user's message
  * @param sessionId - Session ID for Redis storage
  * @param targetLanguage - Target language for response
- * @param onChunk - Callback for each chunk as it arrives
- * @returns Promise<string> - Returns the complete response text
+ * @param onChunk - Callback with the accumulated raw text and the newly received delta
+ * @param options - Optional AbortSignal to stop generation midway
+ * @returns Promise<string> - Returns the complete raw response text
  */
 export async function sendChatMessageStream(
   userQuery: string,
   sessionId: string,
   targetLanguage: string = "english",
-  onChunk: (chunk: string) => void
+  onChunk: (chunk: string, delta: string) => void,
+  options?: { signal?: AbortSignal }
 ): Promise<string> {
-  console.log(
+  chatLog.info(
     `💬 Sending message (${userQuery.length} chars) in ${targetLanguage}`
   );
+  log.debug("➡️ POST", `${CONFIG.API_BASE_URL}/chat/stream`);
 
-  const bearer = await getValidAccessToken().catch(() => null);
-
-  return new Promise((resolve, reject) => {
-    const xhr = new XMLHttpRequest();
-    let accumulatedText = "";
-    let lastProcessedIndex = 0;
-
-    const url = `${API_BASE_URL}/chat/stream`;
-    console.log("➡️ POST", url);
-    xhr.open("POST", url);
-    xhr.setRequestHeader("Content-Type", "application/json");
-    if (bearer) {
-      xhr.setRequestHeader("Authorization", `Bearer ${bearer}`);
-    }
-    // Ensure we fail fast instead of hanging forever on unreachable hosts
-    xhr.timeout = 30000;
-
-    // Handle progress events - this fires as chunks arrive!
-    xhr.onprogress = () => {
-      const currentText = xhr.responseText;
-
-      // Only process new text since last update
-      if (currentText.length > lastProcessedIndex) {
-        accumulatedText = currentText;
-        lastProcessedIndex = currentText.length;
-
-        // Call onChunk with accumulated text so far
-        onChunk(accumulatedText);
-      }
-    };
-
-    xhr.onload = () => {
-      if (xhr.status === 200) {
-        const finalText = xhr.responseText;
-        console.log(`✅ Chat response received (${finalText.length} chars)`);
-
-        // Make sure we have the final text
-        if (finalText.length > accumulatedText.length) {
-          accumulatedText = finalText;
-          onChunk(accumulatedText);
-        }
-
-        resolve(accumulatedText);
-      } else {
-        const errorText = xhr.responseText || xhr.statusText;
-        console.error(`❌ Chat API error - HTTP ${xhr.status}: ${errorText}`);
-        reject(new Error(`HTTP ${xhr.status}: ${errorText}`));
-      }
-    };
-
-    xhr.onerror = () => {
-      console.error(
-        "❌ Network error - Check your connection and backend availability",
-        {
-          url,
-          status: xhr.status,
-          readyState: xhr.readyState,
-        }
-      );
-      reject(new Error("Network error during streaming"));
-    };
-
-    xhr.ontimeout = () => {
-      console.error("❌ Request timeout - Backend took too long to respond");
-      reject(new Error("Request timeout"));
-    };
-
-    // Send the request
-    const body = JSON.stringify({
+  const fullText = await streamRequest({
+    path: "/chat/stream",
+    body: {
       user_query: userQuery,
       session_id: sessionId,
       language: targetLanguage,
-    });
-
-    xhr.send(body);
+    },
+    signal: options?.signal,
+    // Call onChunk with accumulated text so far
+    onDelta: (delta, accumulated) => onChunk(accumulated, delta),
   });
+
+  chatLog.info(`✅ Chat response received (${fullText.length} chars)`);
+  return fullText;
+}
+
+export interface SendChatMessageOptions {
+  signal?: AbortSignal;
+  /** Progress lines from event-based streams ("Searching sources…") */
+  onStatus?: (message: string) => void;
+  /** References as soon as an event-based stream delivers them */
+  onReferences?: (references: any[]) => void;
+  /** The answer text is done and the references payload is still arriving */
+  onReferencesPending?: () => void;
 }
 
 /**
  * Send a chat message with automatic parsing and TRUE streaming
  * Text appears progressively as it arrives from backend!
+ * Understands the legacy `[REFERENCES]` format as well as SSE / NDJSON
+ * event streams (see utils/chatStream.ts).
  * @param userQuery - The user's message
  * @param sessionId - Session ID for Redis storage
  * @param targetLanguage - Target language for response
  * @param onChunk - Callback for each chunk as it streams in
  * @param onComplete - Callback when complete with parsed text and references
- * @param onError - Callback for errors
+ * @param onError - Callback for errors (an ApiError; AbortedError when stopped)
+ * @param options - AbortSignal plus optional status / references callbacks
  */
 export async function sendChatMessage(
   userQuery: string,
@@ -268,73 +255,65 @@ export async function sendChatMessage(
   targetLanguage: string,
   onChunk: (fullMessage: string) => void,
   onComplete: (responseText: string, references: any[]) => void,
-  onError: (error: Error) => void
+  onError: (error: Error) => void,
+  options: SendChatMessageOptions = {}
 ): Promise<void> {
   try {
-    const fullResponse = await sendChatMessageStream(
+    const parser = createChatStreamParser({
+      // Forward text to caller as it arrives
+      onText: onChunk,
+      onStatus: options.onStatus,
+      onReferences: options.onReferences,
+      onReferencesPending: options.onReferencesPending,
+    });
+
+    await sendChatMessageStream(
       userQuery,
       sessionId,
       targetLanguage,
-      (chunk) => {
-        // Forward chunks to caller as they arrive
-        onChunk(chunk);
-      }
+      (_chunk, delta) => parser.push(delta),
+      { signal: options.signal }
     );
 
-    // Parse the final response to separate text from references
-    const { responseText, references } = parseStreamResponse(fullResponse);
+    // Separate the final text from references
+    const { responseText, references } = parser.end();
 
     if (references.length > 0) {
-      console.log(`📚 Response includes ${references.length} reference(s)`);
+      chatLog.info(`📚 Response includes ${references.length} reference(s)`);
     }
 
     onComplete(responseText, references);
   } catch (error) {
-    console.error("❌ Chat message error:", error);
+    if (isAbortError(error)) {
+      chatLog.info("⏹️ Chat generation stopped by user");
+    } else {
+      chatLog.error("❌ Chat message error:", error);
+    }
     onError(error as Error);
   }
 }
 
 /**
- * Parse stream response to separate text from references
- * @param fullMessage - The complete streamed message
- * @returns Object with responseText and references
+ * POST /chat/title
+ * Short title summarizing a chat's first exchange, or null if the backend
+ * couldn't produce one. Only used when CONFIG.CHAT_TITLE_SUMMARIES is on.
  */
-export function parseStreamResponse(fullMessage: string): {
-  responseText: string;
-  references: any[];
-} {
-  // Be lenient about whitespace/newlines around the marker
-  const marker = "[REFERENCES]";
-  const markerIndex = fullMessage.indexOf(marker);
-
-  if (markerIndex === -1) {
-    // No references found
-    return { responseText: fullMessage.trim(), references: [] };
-  }
-
-  // Everything before marker is the assistant text
-  const responseText = fullMessage.slice(0, markerIndex).trim();
-
-  // Everything after marker may include extra newlines — trim it
-  const afterMarker = fullMessage.slice(markerIndex + marker.length).trim();
-
-  // Try to parse JSON
-  try {
-    const parsed = JSON.parse(afterMarker);
-
-    // Support both array and { references: [...] }
-    const references = Array.isArray(parsed)
-      ? parsed
-      : Array.isArray(parsed?.references)
-      ? parsed.references
-      : [];
-
-    return { responseText, references };
-  } catch (err) {
-    console.error("Error parsing references JSON:", err);
-    return { responseText, references: [] };
-  }
+export async function summarizeChatTitle(
+  sessionId: string,
+  question: string,
+  answer: string
+): Promise<string | null> {
+  // Generating a title has no side effects, so it's safe to retry
+  const response = await apiFetch(
+    `${CONFIG.API_BASE_URL}/chat/title`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ session_id: sessionId, question, answer }),
+    },
+    { idempotent: true }
+  );
+  return parseChatTitle(await response.json());
 }
 
 /**
@@ -342,40 +321,33 @@ export function parseStreamResponse(fullMessage: string): {
  * @param userQuery - The search query
  * @returns Promise with search results containing shia and sunni references
  */
-export async function searchReferences(userQuery: string): Promise<{
-  response?: {
-    shia?: any[];
-    sunni?: any[];
-  };
-  error?: string;
-}> {
-  console.log(`🔍 Searching references: "${userQuery.substring(0, 50)}..."`);
+export async function searchReferences(
+  userQuery: string
+): Promise<ReferenceSearchResult> {
+  log.info(`🔍 Searching references (${userQuery.length} chars)`);
 
   try {
-    const response = await fetch(`${API_BASE_URL}/references/`, {
-      method: "POST",
-      headers: await withAuthHeaders({ "Content-Type": "application/json" }),
-      body: JSON.stringify({ user_query: userQuery }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => "");
-      console.error(
-        `❌ Reference search failed - HTTP ${response.status}: ${errorText}`
-      );
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
+    // Read-only search, so it's safe to retry
+    const response = await apiFetch(
+      `${CONFIG.API_BASE_URL}/references/`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ user_query: userQuery }),
+      },
+      { idempotent: true }
+    );
 
-    const data = await response.json();
+    const data = parseReferenceSearchResult(await response.json());
     const shiaCount = data.response?.shia?.length || 0;
     const sunniCount = data.response?.sunni?.length || 0;
-    console.log(
+    log.info(
       `✅ Found ${shiaCount} Shia and ${sunniCount} Sunni reference(s)`
     );
 
     return data;
   } catch (error) {
-    console.error("❌ Reference search error:", error);
+    log.error("❌ Reference search error:", error);
     throw error;
   }
 }
@@ -388,200 +360,100 @@ export async function searchReferences(userQuery: string): Promise<{
 export async function getBaselinePrimer(
   lessonId: number
 ): Promise<BaselinePrimerResponse | null> {
-  const response = await fetch(`${API_BASE_URL}/primers/${lessonId}/baseline`, {
-    method: "GET",
-    headers: await withAuthHeaders({ "Content-Type": "application/json" }),
-  });
-
-  if (response.status === 404) {
-    return null;
+  let response: Response;
+  try {
+    response = await apiFetch(`${CONFIG.API_BASE_URL}/primers/${lessonId}/baseline`, {
+      method: "GET",
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return null;
+    }
+    throw error;
   }
 
-  if (!response.ok) {
-    const text = await response.text().catch(() => "");
-    throw new Error(`HTTP ${response.status}: ${text || response.statusText}`);
-  }
+  return parseBaselinePrimer(await response.json(), lessonId);
+}
 
-  const data = await response.json();
-  return {
-    lesson_id: Number(data?.lesson_id ?? lessonId),
-    baseline_bullets: Array.isArray(data?.baseline_bullets)
-      ? data.baseline_bullets.filter(
-          (item: unknown): item is string => typeof item === "string"
-        )
-      : [],
-    updated_at: data?.updated_at ?? null,
-  };
+/**
+ * POST /primers/personalized
+ * Same result as the stream in one JSON response; used when the stream
+ * can't get through (e.g. a proxy buffering event streams).
+ */
+export async function getPersonalizedPrimer(
+  request: PersonalizedPrimerRequest,
+  options?: { signal?: AbortSignal }
+): Promise<PersonalizedPrimerResponse> {
+  // Cached or regenerated, the result is the same: safe to retry
+  const response = await apiFetch(
+    `${CONFIG.API_BASE_URL}/primers/personalized`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+      signal: options?.signal,
+    },
+    { idempotent: !request.force_refresh }
+  );
+  return parsePersonalizedPrimer(await response.json());
 }
 
 /**
  * POST /primers/personalized/stream
- * Streams SSE primer events via XMLHttpRequest for Expo compatibility.
+ * Streams SSE primer events through the shared streaming client.
  */
 export async function streamPersonalizedPrimer(
   request: PersonalizedPrimerRequest,
   handlers: PrimerStreamHandlers = {},
-  options?: { signal?: AbortSignal }
+  options?: { signal?: AbortSignal; idleTimeoutMs?: number }
 ): Promise<void> {
-  const bearer = await getValidAccessToken().catch(() => null);
-  const { signal } = options || {};
+  const { signal, idleTimeoutMs } = options || {};
 
-  return new Promise((resolve, reject) => {
-    const xhr = new XMLHttpRequest();
-    let lastProcessedIndex = 0;
-    let buffer = "";
-    let settled = false;
-    const clearAbortListener = () => {
-      if (signal) {
-        signal.removeEventListener("abort", handleAbort);
-      }
-    };
-
-    const settleResolve = () => {
-      if (settled) return;
-      settled = true;
-      clearAbortListener();
-      resolve();
-    };
-
-    const settleReject = (error: Error) => {
-      if (settled) return;
-      settled = true;
-      clearAbortListener();
-      reject(error);
-    };
-
-    const handleAbort = () => {
-      xhr.abort();
-      settleReject(new Error("aborted"));
-    };
-
-    if (signal) {
-      if (signal.aborted) {
-        return handleAbort();
-      }
-      signal.addEventListener("abort", handleAbort, { once: true });
+  const parser = createSseParser(({ event, data: payload }) => {
+    if (event === "status") {
+      handlers.onStatus?.(String(payload.message ?? ""));
+      return;
     }
 
-    const parseData = (rawData: string): Record<string, unknown> => {
-      const trimmed = rawData.trim();
-      if (!trimmed) return {};
-      try {
-        return JSON.parse(trimmed) as Record<string, unknown>;
-      } catch {
-        return { raw: trimmed };
-      }
-    };
-
-    const dispatchFrame = (frame: string) => {
-      const trimmedFrame = frame.trim();
-      if (!trimmedFrame) return;
-
-      const lines = trimmedFrame.split(/\r?\n/);
-      let eventName = "message";
-      const dataLines: string[] = [];
-
-      for (const line of lines) {
-        if (line.startsWith("event:")) {
-          eventName = line.slice(6).trim();
-          continue;
-        }
-        if (line.startsWith("data:")) {
-          dataLines.push(line.slice(5).trimStart());
-        }
-      }
-
-      const payload = parseData(dataLines.join("\n"));
-
-      if (eventName === "status") {
-        handlers.onStatus?.(String(payload.message ?? ""));
-        return;
-      }
-
-      if (eventName === "bullet") {
-        const content = payload.content;
-        if (typeof content === "string") {
-          const index =
-            typeof payload.index === "number" ? payload.index : -1;
-          handlers.onBullet?.({ index, content });
-        }
-        return;
+    if (event === "llm_chunk") {
+      if (typeof payload.content === "string") {
+        handlers.onLlmChunk?.(payload.content);
       }
+      return;
+    }
 
-      if (eventName === "metadata") {
-        handlers.onMetadata?.({
-          from_cache: Boolean(payload.from_cache),
-          generated_at:
-            typeof payload.generated_at === "string" ? payload.generated_at : null,
-          stale: Boolean(payload.stale),
-          personalized_available: Boolean(payload.personalized_available),
-        });
-        return;
-      }
-
-      if (eventName === "error") {
-        handlers.onError?.(payload);
-        return;
-      }
-
-      if (eventName === "done") {
-        handlers.onDone?.(payload as { success?: boolean });
-        settleResolve();
-      }
-    };
-
-    const processChunk = (chunk: string) => {
-      if (!chunk) return;
-      buffer += chunk;
-
-      while (true) {
-        const match = buffer.match(/\r?\n\r?\n/);
-        if (!match || typeof match.index !== "number") break;
-
-        const frame = buffer.slice(0, match.index);
-        buffer = buffer.slice(match.index + match[0].length);
-        dispatchFrame(frame);
-      }
-    };
+    if (event === "bullet") {
+      const bullet = parsePrimerBullet(payload);
+      if (bullet) handlers.onBullet?.(bullet);
+      return;
+    }
 
-    xhr.open("POST", `${API_BASE_URL}/primers/personalized/stream`);
-    xhr.setRequestHeader("Content-Type", "application/json");
-    xhr.setRequestHeader("Accept", "text/event-stream");
-    if (bearer) {
-      xhr.setRequestHeader("Authorization", `Bearer ${bearer}`);
+    if (event === "metadata") {
+      handlers.onMetadata?.(parsePrimerMetadata(payload));
+      return;
     }
-    xhr.timeout = 30000;
-
-    xhr.onprogress = () => {
-      const currentText = xhr.responseText;
-      if (currentText.length <= lastProcessedIndex) return;
-      const nextChunk = currentText.slice(lastProcessedIndex);
-      lastProcessedIndex = currentText.length;
-      processChunk(nextChunk);
-    };
-
-    xhr.onload = () => {
-      if (xhr.status >= 200 && xhr.status < 300) {
-        if (buffer.trim()) {
-          dispatchFrame(buffer);
-        }
-        settleResolve();
-      } else {
-        const errorText = xhr.responseText || xhr.statusText;
-        settleReject(new Error(`HTTP ${xhr.status}: ${errorText}`));
-      }
-    };
 
-    xhr.onerror = () => {
-      settleReject(new Error("Network error during primer streaming"));
-    };
+    if (event === "error") {
+      handlers.onError?.(payload);
+      return;
+    }
 
-    xhr.ontimeout = () => {
-      settleReject(new Error("Primer streaming timeout"));
-    };
+    if (event === "done") {
+      handlers.onDone?.(payload as { success?: boolean });
+    }
+  });
 
-    xhr.send(JSON.stringify(request));
+  await streamRequest({
+    path: "/primers/personalized/stream",
+    body: request,
+    accept: "text/event-stream",
+    signal,
+    idleTimeoutMs,
+    onDelta: (delta) => parser.push(delta),
   });
+
+  parser.flush();
 }
 
 // ---------------------------
@@ -602,31 +474,23 @@ function buildQuery(params: Record<string, any> = {}) {
  * GET /hikmah-trees
  */
 export async function getHikmahTrees(params = {}): Promise<HikmahTree[]> {
-  const url = `${API_BASE_URL}/hikmah-trees${buildQuery(params)}`;
-  const response = await fetch(url, {
+  const url = `${CONFIG.API_BASE_URL}/hikmah-trees${buildQuery(params)}`;
+  const response = await apiFetch(url, {
     method: "GET",
-    headers: await withAuthHeaders({ "Content-Type": "application/json" }),
+    headers: { "Content-Type": "application/json" },
   });
-  if (!response.ok) {
-    const text = await response.text().catch(() => "");
-    throw new Error(`HTTP ${response.status}: ${text || response.statusText}`);
-  }
-  return response.json();
+  return parseHikmahTrees(await response.json());
 }
 
 /** GET /hikmah-trees/{tree_id} */
 export async function getHikmahTree(
   treeId: string | number
 ): Promise<HikmahTree> {
-  const response = await fetch(`${API_BASE_URL}/hikmah-trees/${treeId}`, {
+  const response = await apiFetch(`${CONFIG.API_BASE_URL}/hikmah-trees/${treeId}`, {
     method: "GET",
-    headers: await withAuthHeaders({ "Content-Type": "application/json" }),
+    headers: { "Content-Type": "application/json" },
   });
-  if (!response.ok) {
-    const text = await response.text().catch(() => "");
-    throw new Error(`HTTP ${response.status}: ${text || response.statusText}`);
-  }
-  return response.json();
+  return parseHikmahTree(await response.json());
 }
 
 /**
@@ -637,39 +501,26 @@ export async function getLessonsByTreeId(
   params: Record<string, any> = { order_by: "order_position" }
 ): Promise<Lesson[]> {
   const query = { ...params, hikmah_tree_id: treeId };
-  const url = `${API_BASE_URL}/lessons${buildQuery(query)}`;
-  const response = await fetch(url, {
+  const url = `${CONFIG.API_BASE_URL}/lessons${buildQuery(query)}`;
+  const response = await apiFetch(url, {
     method: "GET",
-    headers: await withAuthHeaders({ "Content-Type": "application/json" }),
+    headers: { "Content-Type": "application/json" },
   });
-  if (!response.ok) {
-    const text = await response.text().catch(() => "");
-    throw new Error(`HTTP ${response.status}: ${text || response.statusText}`);
-  }
-  const data = await response.json();
-  // Defensive: sort by order_position if present
-  return Array.isArray(data)
-    ? data.slice().sort((a, b) => {
-        const ao = a?.order_position ?? Number.MAX_SAFE_INTEGER;
-        const bo = b?.order_position ?? Number.MAX_SAFE_INTEGER;
-        return ao - bo;
-      })
-    : data;
+  // Lessons without an order_position sort last
+  return parseLessons(await response.json()).sort(
+    (a, b) => a.order_position - b.order_position
+  );
 }
 
 /** GET /lessons/{lesson_id} */
 export async function getLessonById(
   lessonId: string | number
 ): Promise<Lesson> {
-  const response = await fetch(`${API_BASE_URL}/lessons/${lessonId}`, {
+  const response = await apiFetch(`${CONFIG.API_BASE_URL}/lessons/${lessonId}`, {
     method: "GET",
-    headers: await withAuthHeaders({ "Content-Type": "application/json" }),
+    headers: { "Content-Type": "application/json" },
   });
-  if (!response.ok) {
-    const text = await response.text().catch(() => "");
-    throw new Error(`HTTP ${response.status}: ${text || response.statusText}`);
-  }
-  return response.json();
+  return parseLesson(await response.json());
 }
 
 /**
@@ -680,23 +531,14 @@ export async function getLessonContent(
   params: Record<string, any> = {}
 ): Promise<LessonContent[]> {
   const query = { ...params, lesson_id: lessonId };
-  const url = `${API_BASE_URL}/lesson-content${buildQuery(query)}`;
-  const response = await fetch(url, {
+  const url = `${CONFIG.API_BASE_URL}/lesson-content${buildQuery(query)}`;
+  const response = await apiFetch(url, {
     method: "GET",
-    headers: await withAuthHeaders({ "Content-Type": "application/json" }),
+    headers: { "Content-Type": "application/json" },
   });
-  if (!response.ok) {
-    const text = await response.text().catch(() => "");
-    throw new Error(`HTTP ${response.status}: ${text || response.statusText}`);
-  }
-  const data = await response.json();
-  return Array.isArray(data)
-    ? data.slice().sort((a, b) => {
-        const ao = a?.order_position ?? Number.MAX_SAFE_INTEGER;
-        const bo = b?.order_position ?? Number.MAX_SAFE_INTEGER;
-        return ao - bo;
-      })
-    : data;
+  return parseLessonContentList(await response.json()).sort(
+    (a, b) => a.order_position - b.order_position
+  );
 }
 
 // ---------------------------
@@ -705,32 +547,24 @@ export async function getLessonContent(
 
 /** GET /user-progress */
 export async function listUserProgress(params = {}): Promise<UserProgress[]> {
-  const url = `${API_BASE_URL}/user-progress${buildQuery(params)}`;
-  const response = await fetch(url, {
+  const url = `${CONFIG.API_BASE_URL}/user-progress${buildQuery(params)}`;
+  const response = await apiFetch(url, {
     method: "GET",
-    headers: await withAuthHeaders({ "Content-Type": "application/json" }),
+    headers: { "Content-Type": "application/json" },
   });
-  if (!response.ok) {
-    const text = await response.text().catch(() => "");
-    throw new Error(`HTTP ${response.status}: ${text || response.statusText}`);
-  }
-  return response.json();
+  return parseUserProgressList(await response.json());
 }
 
 /** POST /user-progress */
 export async function createUserProgress(
   payload: Partial<UserProgress>
 ): Promise<UserProgress> {
-  const response = await fetch(`${API_BASE_URL}/user-progress`, {
+  const response = await apiFetch(`${CONFIG.API_BASE_URL}/user-progress`, {
     method: "POST",
-    headers: await withAuthHeaders({ "Content-Type": "application/json" }),
+    headers: { "Content-Type": "application/json" },
     body: JSON.stringify(payload),
   });
-  if (!response.ok) {
-    const text = await response.text().catch(() => "");
-    throw new Error(`HTTP ${response.status}: ${text || response.statusText}`);
-  }
-  return response.json();
+  return parseUserProgress(await response.json());
 }
 
 /** PATCH /user-progress/{progress_id} */
@@ -738,21 +572,33 @@ export async function updateUserProgress(
   progressId: number,
   payload: Partial<UserProgress>
 ): Promise<UserProgress> {
-  const response = await fetch(`${API_BASE_URL}/user-progress/${progressId}`, {
-    method: "PATCH",
-    headers: await withAuthHeaders({ "Content-Type": "application/json" }),
-    body: JSON.stringify(payload),
-  });
-  if (!response.ok) {
-    const text = await response.text().catch(() => "");
-    throw new Error(`HTTP ${response.status}: ${text || response.statusText}`);
-  }
-  return response.json();
+  // PATCH sets absolute values, so replaying it is safe
+  const response = await apiFetch(
+    `${CONFIG.API_BASE_URL}/user-progress/${progressId}`,
+    {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    },
+    { idempotent: true }
+  );
+  return parseUserProgress(await response.json());
+}
+
+/** One progress record per (user, tree, lesson[, content]) */
+function progressKey(progress: Partial<UserProgress>) {
+  const { user_id, hikmah_tree_id, lesson_id, content_id } = progress;
+  return [user_id, hikmah_tree_id, lesson_id, content_id ?? ""].join(":");
 }
 
+// Record ids already found or created (per backend), so later writes PATCH directly
+const progressIds = new Map<string, number>();
+
 /**
  * Upsert user progress by (user_id, lesson_id[, content_id])
  * - If a record exists, PATCH it; else, POST a new one.
+ * Not safe to run concurrently for the same lesson: go through
+ * saveUserProgress, which serializes writes.
  */
 export async function upsertUserProgress(progress: Partial<UserProgress>) {
   const { user_id, hikmah_tree_id, lesson_id, content_id, ...rest } =
@@ -760,23 +606,49 @@ export async function upsertUserProgress(progress: Partial<UserProgress>) {
   if (!user_id || !lesson_id) {
     throw new Error("upsertUserProgress requires user_id and lesson_id");
   }
-  const existing = await listUserProgress({
-    user_id,
-    hikmah_tree_id,
-    lesson_id,
-    content_id,
-  });
-  if (Array.isArray(existing) && existing.length > 0) {
-    const first = existing[0];
-    return updateUserProgress(first.id, rest);
+  const key = `${CONFIG.API_BASE_URL}|${progressKey(progress)}`;
+  const knownId = progressIds.get(key);
+  if (knownId !== undefined) {
+    try {
+      return await updateUserProgress(knownId, rest);
+    } catch (error) {
+      // Deleted on the server since: look it up again below
+      if (toApiError(error).kind !== "not_found") throw error;
+      progressIds.delete(key);
+    }
   }
-  return createUserProgress({
+  const existing = await listUserProgress({
     user_id,
     hikmah_tree_id,
     lesson_id,
     content_id,
-    ...rest,
   });
+  const record =
+    Array.isArray(existing) && existing.length > 0
+      ? await updateUserProgress(existing[0].id, rest)
+      : await createUserProgress({
+          user_id,
+          hikmah_tree_id,
+          lesson_id,
+          content_id,
+          ...rest,
+        });
+  progressIds.set(key, record.id);
+  return record;
+}
+
+registerDeferredWriteHandler("userProgress", upsertUserProgress, {
+  key: progressKey,
+});
+
+/**
+ * Save user progress through the on-device outbox (see utils/deferredWrites.ts):
+ * writes for a lesson are sent one at a time, rapid updates are coalesced
+ * into the latest state, and anything unsent is retried after a restart or
+ * once the backend is reachable again. Resolves once stored on device.
+ */
+export function saveUserProgress(progress: Partial<UserProgress>) {
+  return enqueueWrite("userProgress", progress);
 }
 
 // ---------------------------
@@ -785,65 +657,18 @@ export async function upsertUserProgress(progress: Partial<UserProgress>) {
 
 /**
  * Get streaming elaboration for selected text
- * Reuses the same XMLHttpRequest approach as chat streaming for Expo Go compatibility
+ * Uses the same streaming client as chat for Expo Go compatibility
  */
 export async function elaborateSelectionStream(
   payload: ElaborationPayload,
   onChunk: (text: string) => void,
   options?: { signal?: AbortSignal }
 ): Promise<string> {
-  const bearer = await getValidAccessToken().catch(() => null);
   const { signal } = options || {};
-  return new Promise((resolve, reject) => {
-    const xhr = new XMLHttpRequest();
-    let accumulatedText = "";
-    let lastProcessedIndex = 0;
-
-    const handleAbort = () => {
-      xhr.abort();
-      reject(new Error("aborted"));
-    };
-
-    if (signal) {
-      if (signal.aborted) {
-        return handleAbort();
-      }
-      signal.addEventListener("abort", handleAbort, { once: true });
-    }
-
-    xhr.open("POST", `${API_BASE_URL}/hikmah/elaborate/stream`);
-    xhr.setRequestHeader("Content-Type", "application/json");
-    if (bearer) {
-      xhr.setRequestHeader("Authorization", `Bearer ${bearer}`);
-    }
-
-    xhr.onprogress = () => {
-      const currentText = xhr.responseText;
-      if (currentText.length > lastProcessedIndex) {
-        accumulatedText = currentText;
-        lastProcessedIndex = currentText.length;
-        onChunk(accumulatedText);
-      }
-    };
-
-    xhr.onload = () => {
-      if (xhr.status === 200) {
-        const finalText = xhr.responseText;
-        if (finalText.length > accumulatedText.length) {
-          accumulatedText = finalText;
-          onChunk(accumulatedText);
-        }
-        resolve(accumulatedText);
-      } else {
-        const errorText = xhr.responseText || xhr.statusText;
-        reject(new Error(`HTTP ${xhr.status}: ${errorText}`));
-      }
-    };
-
-    xhr.onerror = () => {
-      reject(new Error("Network error during streaming"));
-    };
-
-    xhr.send(JSON.stringify(payload));
+  return streamRequest({
+    path: "/hikmah/elaborate/stream",
+    body: payload,
+    signal,
+    onDelta: (_delta, accumulated) => onChunk(accumulated),
   });
 }
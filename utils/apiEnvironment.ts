@@ -0,0 +1,144 @@
+/**
+ * Backend environment switching for internal builds
+ * Lets testers point an installed build at another backend (see the developer
+ * section in app/settings.tsx). The choice is validated with a health check,
+ * persisted on device and applied to CONFIG immediately, so no restart is needed.
+ */
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  ApiEnvironment,
+  ApiEnvironmentSelection,
+  getApiEnvironment,
+  resolveApiEnvironment,
+  setActiveApiEnvironment,
+} from "./config";
+import { STORAGE_KEYS } from "./constants";
+import { clearQueryCache } from "./queryCache";
+import { clearDeferredWrites } from "./deferredWrites";
+import { clearOfflineCopies } from "./hikmahStorage";
+import { checkConnectivity } from "./connectivity";
+import { createLogger } from "./logger";
+
+const log = createLogger("api");
+
+type Listener = (environment: ApiEnvironment) => void;
+
+const STORAGE_KEY = STORAGE_KEYS.API_ENVIRONMENT;
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+
+let selection: ApiEnvironmentSelection | null = null;
+const listeners = new Set<Listener>();
+
+/** The stored selection (null = build default) */
+export function getApiEnvironmentSelection(): ApiEnvironmentSelection | null {
+  return selection;
+}
+
+/**
+ * Apply the persisted choice. Call once at startup before any request;
+ * falls back to the build default when the stored value is unusable.
+ */
+export async function loadApiEnvironment(): Promise<ApiEnvironment> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    const stored: ApiEnvironmentSelection | null = raw ? JSON.parse(raw) : null;
+    const environment = resolveApiEnvironment(stored);
+    if (stored && environment) {
+      selection = stored;
+      setActiveApiEnvironment(environment);
+      log.info(`🧪 Using ${environment.label} backend: ${environment.apiBaseUrl}`);
+    }
+  } catch (e) {
+    log.warn("⚠️ Failed to load backend environment:", e);
+  }
+  return getApiEnvironment();
+}
+
+/**
+ * Check that a backend answers. Any non-5xx response counts: the root path
+ * isn't guaranteed to exist, but a 404 still proves the server is up.
+ */
+export async function checkApiHealth(apiBaseUrl: string): Promise<void> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), HEALTH_CHECK_TIMEOUT_MS);
+  let response: Response;
+  try {
+    response = await fetch(`${apiBaseUrl}/`, {
+      method: "GET",
+      signal: controller.signal,
+    });
+  } catch (e: any) {
+    throw new Error(
+      e?.name === "AbortError"
+        ? `No response within ${HEALTH_CHECK_TIMEOUT_MS / 1000}s`
+        : `Unable to reach ${apiBaseUrl}`
+    );
+  } finally {
+    clearTimeout(timer);
+  }
+  if (response.status >= 500) {
+    throw new Error(`Backend answered with HTTP ${response.status}`);
+  }
+}
+
+/**
+ * Resolve and health-check a selection without applying it.
+ * Throws an Error with a user-facing message when it can't be used.
+ */
+export async function validateApiEnvironment(
+  next: ApiEnvironmentSelection | null
+): Promise<ApiEnvironment> {
+  const environment = resolveApiEnvironment(next);
+  if (!environment) {
+    throw new Error(
+      next?.id === "custom"
+        ? "Enter a full URL, e.g. https://api.example.com"
+        : "This environment isn't configured in this build"
+    );
+  }
+  await checkApiHealth(environment.apiBaseUrl);
+  return environment;
+}
+
+/** Whether switching to `environment` moves to another Cognito pool/client */
+export function changesAuthConfig(environment: ApiEnvironment): boolean {
+  const current = getApiEnvironment().cognito;
+  return (
+    current.domain !== environment.cognito.domain ||
+    current.clientId !== environment.cognito.clientId ||
+    current.issuer !== environment.cognito.issuer
+  );
+}
+
+/**
+ * Persist and apply a validated environment. Cached responses and queued
+ * writes belong to the previous backend, so they're dropped.
+ * Sign out first when `changesAuthConfig` is true: tokens don't carry over.
+ */
+export async function applyApiEnvironment(
+  next: ApiEnvironmentSelection | null,
+  environment: ApiEnvironment
+): Promise<void> {
+  if (next) {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } else {
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  }
+  selection = next;
+  setActiveApiEnvironment(environment);
+  log.info(`🧪 Switched to ${environment.label} backend: ${environment.apiBaseUrl}`);
+
+  clearQueryCache();
+  await clearOfflineCopies();
+  await clearDeferredWrites();
+  checkConnectivity();
+  listeners.forEach((listener) => listener(environment));
+}
+
+export function subscribeApiEnvironment(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
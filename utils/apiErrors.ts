@@ -0,0 +1,218 @@
+/**
+ * Typed API error model for Deen mobile app
+ * Every helper in utils/api.ts and utils/streamClient.ts throws one of these,
+ * so screens can react to the kind of failure instead of string-matching.
+ */
+
+export type ApiErrorKind =
+  | "network"
+  | "timeout"
+  | "unauthorized"
+  | "not_found"
+  | "rate_limited"
+  | "server"
+  | "client"
+  | "aborted";
+
+interface ApiErrorOptions {
+  status?: number;
+  detail?: string;
+  body?: string;
+  /** Delay requested by the server's Retry-After header, if any */
+  retryAfterMs?: number;
+}
+
+/**
+ * Base class for all API failures.
+ * - `status`: HTTP status when the server answered
+ * - `retryable`: whether repeating the same request may succeed
+ * - `detail`: parsed FastAPI `detail` message, when present
+ * - `retryAfterMs`: server-requested wait before retrying (429/503)
+ */
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  readonly retryable: boolean;
+  readonly detail?: string;
+  readonly body?: string;
+  readonly retryAfterMs?: number;
+
+  constructor(
+    kind: ApiErrorKind,
+    message: string,
+    retryable: boolean,
+    options: ApiErrorOptions = {}
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.retryable = retryable;
+    this.status = options.status;
+    this.detail = options.detail;
+    this.body = options.body;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+export class NetworkError extends ApiError {
+  constructor(message = "Network request failed") {
+    super("network", message, true);
+    this.name = "NetworkError";
+  }
+}
+
+export class TimeoutError extends ApiError {
+  constructor(message = "Request timeout") {
+    super("timeout", message, true);
+    this.name = "TimeoutError";
+  }
+}
+
+export class AbortedError extends ApiError {
+  constructor() {
+    // Message kept as "aborted" for callers that still compare on it
+    super("aborted", "aborted", false);
+    this.name = "AbortedError";
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super("unauthorized", message, false, options);
+    this.name = "UnauthorizedError";
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super("not_found", message, false, options);
+    this.name = "NotFoundError";
+  }
+}
+
+export class RateLimitedError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super("rate_limited", message, true, options);
+    this.name = "RateLimitedError";
+  }
+}
+
+export class ServerError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super("server", message, true, options);
+    this.name = "ServerError";
+  }
+}
+
+/** Any other 4xx (validation errors, forbidden, conflicts…) */
+export class ClientError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super("client", message, false, options);
+    this.name = "ClientError";
+  }
+}
+
+/**
+ * A 2xx response whose body doesn't match the expected shape.
+ * Reported like a server failure, but repeating the request won't help.
+ */
+export class InvalidResponseError extends ApiError {
+  constructor(message: string) {
+    super("server", message, false);
+    this.name = "InvalidResponseError";
+  }
+}
+
+/**
+ * Extract FastAPI's `detail` from an error body.
+ * Handles `{ detail: "..." }` and validation lists `{ detail: [{ msg }] }`.
+ */
+export function parseErrorDetail(body: string | undefined): string | undefined {
+  if (!body) return undefined;
+  try {
+    const parsed = JSON.parse(body);
+    const detail = parsed?.detail;
+    if (typeof detail === "string") return detail;
+    if (Array.isArray(detail)) {
+      const messages = detail
+        .map((item) => (typeof item?.msg === "string" ? item.msg : null))
+        .filter((msg): msg is string => Boolean(msg));
+      return messages.length > 0 ? messages.join("; ") : undefined;
+    }
+    return undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - Date.now());
+}
+
+/**
+ * Build the matching ApiError for a non-2xx HTTP response
+ * @param status - HTTP status code
+ * @param body - Raw response text (may be empty)
+ * @param retryAfter - Raw Retry-After header value, if any
+ */
+export function errorFromStatus(
+  status: number,
+  body: string = "",
+  retryAfter?: string | null
+): ApiError {
+  const detail = parseErrorDetail(body);
+  const message = `HTTP ${status}: ${body}`;
+  const options = {
+    status,
+    detail,
+    body,
+    retryAfterMs: parseRetryAfter(retryAfter),
+  };
+
+  if (status === 401) return new UnauthorizedError(message, options);
+  if (status === 404) return new NotFoundError(message, options);
+  if (status === 429) return new RateLimitedError(message, options);
+  if (status === 408) return new TimeoutError(message);
+  if (status >= 500) return new ServerError(message, options);
+  return new ClientError(message, options);
+}
+
+/**
+ * Build an ApiError from a failed fetch Response
+ */
+export async function errorFromResponse(response: Response): Promise<ApiError> {
+  const text = await response.text().catch(() => "");
+  return errorFromStatus(
+    response.status,
+    text || response.statusText,
+    response.headers?.get?.("Retry-After")
+  );
+}
+
+/**
+ * Normalize anything thrown by fetch or our helpers into an ApiError.
+ * fetch rejects with a TypeError on connectivity failures.
+ */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+  if (error instanceof Error) {
+    if (error.name === "AbortError") return new AbortedError();
+    return new NetworkError(error.message);
+  }
+  return new NetworkError(String(error));
+}
+
+/**
+ * True when the error comes from a cancelled request
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof ApiError && error.kind === "aborted";
+}
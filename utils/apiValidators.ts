@@ -0,0 +1,363 @@
+/**
+ * Runtime validation for backend payloads
+ * Checks the JSON returned by utils/api.ts before it reaches components:
+ * - IDs and numbers are coerced ("12" -> 12)
+ * - malformed list items are dropped instead of rendered half-empty
+ * - every problem is logged as one structured warning per payload
+ * Single objects that can't be salvaged throw InvalidResponseError.
+ */
+
+import type {
+  BaselinePrimerResponse,
+  HikmahTree,
+  Lesson,
+  LessonContent,
+  PersonalizedPrimerMetadata,
+  PersonalizedPrimerResponse,
+  PrimerGlossary,
+  UserProgress,
+} from "./api";
+import { InvalidResponseError } from "./apiErrors";
+import {
+  Reference,
+  ReferenceResults,
+  ReferenceSect,
+  isEmptyReference,
+  normalizeReference,
+} from "./references";
+import { createLogger } from "./logger";
+
+const log = createLogger("api");
+
+type Raw = Record<string, unknown>;
+
+export interface ReferenceSearchResult {
+  response?: ReferenceResults;
+  error?: string;
+}
+
+interface ValidationIssue {
+  /** Position in the payload, e.g. "[3].title" */
+  path: string;
+  reason: string;
+}
+
+function isRecord(value: unknown): value is Raw {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Numeric IDs may arrive as strings */
+function toId(value: unknown): number | undefined {
+  if (typeof value === "number") return Number.isFinite(value) ? value : undefined;
+  if (typeof value === "string" && value.trim() !== "") {
+    const n = Number(value);
+    return Number.isFinite(n) ? n : undefined;
+  }
+  return undefined;
+}
+
+function toNumber(value: unknown, fallback: number): number {
+  return toId(value) ?? fallback;
+}
+
+function toOptionalString(value: unknown): string | undefined {
+  if (typeof value === "string") return value;
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  return undefined;
+}
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : [];
+}
+
+/**
+ * Glossary map; definitions may arrive as plain strings or as
+ * `{ definition }` objects. Entries without a usable definition are dropped.
+ */
+function toGlossary(value: unknown): PrimerGlossary {
+  if (!isRecord(value)) return {};
+  const glossary: PrimerGlossary = {};
+  Object.entries(value).forEach(([term, entry]) => {
+    const definition = isRecord(entry) ? entry.definition : entry;
+    if (term.trim() && typeof definition === "string" && definition.trim()) {
+      glossary[term.trim()] = definition.trim();
+    }
+  });
+  return glossary;
+}
+
+function toBoolean(value: unknown): boolean {
+  if (typeof value === "string") return value === "true" || value === "1";
+  return Boolean(value);
+}
+
+function reportIssues(schema: string, issues: ValidationIssue[]) {
+  if (issues.length === 0) return;
+  log.warn("⚠️ Invalid API payload", {
+    schema,
+    issues: issues.slice(0, 10),
+    total: issues.length,
+  });
+}
+
+/**
+ * Run a per-item parser over a list payload. Items it rejects are dropped;
+ * a non-array payload yields an empty list.
+ */
+function parseList<T>(
+  schema: string,
+  data: unknown,
+  parseItem: (item: unknown) => T | string
+): T[] {
+  if (!Array.isArray(data)) {
+    reportIssues(schema, [{ path: "", reason: "expected an array" }]);
+    return [];
+  }
+  const issues: ValidationIssue[] = [];
+  const items: T[] = [];
+  data.forEach((item, index) => {
+    const parsed = parseItem(item);
+    if (typeof parsed === "string") {
+      issues.push({ path: `[${index}]`, reason: parsed });
+    } else {
+      items.push(parsed);
+    }
+  });
+  reportIssues(schema, issues);
+  return items;
+}
+
+/** Parse a single object payload, throwing when it's unusable */
+function parseOne<T>(
+  schema: string,
+  data: unknown,
+  parseItem: (item: unknown) => T | string
+): T {
+  const parsed = parseItem(data);
+  if (typeof parsed === "string") {
+    reportIssues(schema, [{ path: "", reason: parsed }]);
+    throw new InvalidResponseError(`Invalid ${schema} payload: ${parsed}`);
+  }
+  return parsed;
+}
+
+// Item parsers return the value, or a reason string when it must be dropped
+
+function hikmahTreeItem(raw: unknown): HikmahTree | string {
+  if (!isRecord(raw)) return "not an object";
+  const id = toId(raw.id);
+  if (id === undefined) return "missing id";
+  const title = toOptionalString(raw.title);
+  if (!title) return "missing title";
+  return {
+    id,
+    title,
+    subtitle: toOptionalString(raw.subtitle),
+    summary: toOptionalString(raw.summary),
+    tags: toStringList(raw.tags),
+    skill_level: toOptionalString(raw.skill_level),
+  };
+}
+
+function lessonItem(raw: unknown): Lesson | string {
+  if (!isRecord(raw)) return "not an object";
+  const id = toId(raw.id);
+  if (id === undefined) return "missing id";
+  const hikmahTreeId = toId(raw.hikmah_tree_id);
+  if (hikmahTreeId === undefined) return "missing hikmah_tree_id";
+  const title = toOptionalString(raw.title);
+  if (!title) return "missing title";
+  return {
+    id,
+    hikmah_tree_id: hikmahTreeId,
+    title,
+    summary: toOptionalString(raw.summary),
+    order_position: toNumber(raw.order_position, Number.MAX_SAFE_INTEGER),
+    estimated_minutes: toId(raw.estimated_minutes),
+    content: toOptionalString(raw.content),
+  };
+}
+
+function lessonContentItem(raw: unknown): LessonContent | string {
+  if (!isRecord(raw)) return "not an object";
+  const id = toId(raw.id);
+  if (id === undefined) return "missing id";
+  const lessonId = toId(raw.lesson_id);
+  if (lessonId === undefined) return "missing lesson_id";
+  if (typeof raw.content_body !== "string") return "missing content_body";
+  return {
+    id,
+    lesson_id: lessonId,
+    content_body: raw.content_body,
+    order_position: toNumber(raw.order_position, Number.MAX_SAFE_INTEGER),
+  };
+}
+
+function userProgressItem(raw: unknown): UserProgress | string {
+  if (!isRecord(raw)) return "not an object";
+  const id = toId(raw.id);
+  if (id === undefined) return "missing id";
+  const userId = toOptionalString(raw.user_id);
+  if (!userId) return "missing user_id";
+  const lessonId = toId(raw.lesson_id);
+  if (lessonId === undefined) return "missing lesson_id";
+  return {
+    id,
+    user_id: userId,
+    hikmah_tree_id: toNumber(raw.hikmah_tree_id, 0),
+    lesson_id: lessonId,
+    content_id: toId(raw.content_id),
+    is_completed: toBoolean(raw.is_completed),
+    last_position: toNumber(raw.last_position, 0),
+    percent_complete: toNumber(raw.percent_complete, 0),
+    updated_at: toOptionalString(raw.updated_at) ?? "",
+  };
+}
+
+function referenceItem(
+  raw: unknown,
+  fallbackSect?: ReferenceSect
+): Reference | string {
+  if (!isRecord(raw)) return "not an object";
+  const reference = normalizeReference(raw, fallbackSect);
+  if (isEmptyReference(reference)) return "no text or citation";
+  return reference;
+}
+
+// ---- Public parsers ----
+
+export function parseHikmahTrees(data: unknown): HikmahTree[] {
+  return parseList("HikmahTree[]", data, hikmahTreeItem);
+}
+
+export function parseHikmahTree(data: unknown): HikmahTree {
+  return parseOne("HikmahTree", data, hikmahTreeItem);
+}
+
+export function parseLessons(data: unknown): Lesson[] {
+  return parseList("Lesson[]", data, lessonItem);
+}
+
+export function parseLesson(data: unknown): Lesson {
+  return parseOne("Lesson", data, lessonItem);
+}
+
+export function parseLessonContentList(data: unknown): LessonContent[] {
+  return parseList("LessonContent[]", data, lessonContentItem);
+}
+
+export function parseUserProgressList(data: unknown): UserProgress[] {
+  return parseList("UserProgress[]", data, userProgressItem);
+}
+
+export function parseUserProgress(data: unknown): UserProgress {
+  return parseOne("UserProgress", data, userProgressItem);
+}
+
+/**
+ * @param fallbackSect - Sect for items that don't carry one (search results
+ * are grouped by sect instead)
+ */
+export function parseReferences(
+  data: unknown,
+  fallbackSect?: ReferenceSect
+): Reference[] {
+  return parseList("Reference[]", data, (item) =>
+    referenceItem(item, fallbackSect)
+  );
+}
+
+/** POST /references/ → `{ response: { shia, sunni } }` */
+export function parseReferenceSearchResult(data: unknown): ReferenceSearchResult {
+  if (!isRecord(data)) {
+    reportIssues("ReferenceSearchResult", [
+      { path: "", reason: "not an object" },
+    ]);
+    return {};
+  }
+  const result: ReferenceSearchResult = {};
+  if (typeof data.error === "string") result.error = data.error;
+  if (isRecord(data.response)) {
+    result.response = {
+      shia:
+        data.response.shia === undefined
+          ? undefined
+          : parseReferences(data.response.shia, "shia"),
+      sunni:
+        data.response.sunni === undefined
+          ? undefined
+          : parseReferences(data.response.sunni, "sunni"),
+    };
+  }
+  return result;
+}
+
+/** GET /primers/{lesson_id}/baseline */
+export function parseBaselinePrimer(
+  data: unknown,
+  lessonId: number
+): BaselinePrimerResponse {
+  const raw = isRecord(data) ? data : {};
+  if (!isRecord(data) || !Array.isArray(data.baseline_bullets)) {
+    reportIssues("BaselinePrimerResponse", [
+      { path: ".baseline_bullets", reason: "expected an array" },
+    ]);
+  }
+  return {
+    lesson_id: toId(raw.lesson_id) ?? lessonId,
+    baseline_bullets: toStringList(raw.baseline_bullets),
+    glossary: toGlossary(raw.glossary),
+    updated_at: toOptionalString(raw.updated_at) ?? null,
+  };
+}
+
+/** `metadata` event of the personalized primer stream */
+export function parsePrimerMetadata(data: unknown): PersonalizedPrimerMetadata {
+  const raw = isRecord(data) ? data : {};
+  return {
+    from_cache: toBoolean(raw.from_cache),
+    generated_at: toOptionalString(raw.generated_at) ?? null,
+    stale: toBoolean(raw.stale),
+    personalized_available: toBoolean(raw.personalized_available),
+  };
+}
+
+/** POST /primers/personalized */
+export function parsePersonalizedPrimer(
+  data: unknown
+): PersonalizedPrimerResponse {
+  if (!isRecord(data) || !Array.isArray(data.personalized_bullets)) {
+    reportIssues("PersonalizedPrimerResponse", [
+      { path: ".personalized_bullets", reason: "expected an array" },
+    ]);
+  }
+  const raw = isRecord(data) ? data : {};
+  return {
+    ...parsePrimerMetadata(raw),
+    personalized_bullets: toStringList(raw.personalized_bullets),
+  };
+}
+
+/** Chat title summary; null when the backend had nothing usable */
+export function parseChatTitle(data: unknown): string | null {
+  const title =
+    isRecord(data) && typeof data.title === "string" ? data.title.trim() : "";
+  if (!title) {
+    reportIssues("ChatTitle", [{ path: ".title", reason: "missing title" }]);
+    return null;
+  }
+  return title;
+}
+
+/** `bullet` event of the personalized primer stream; null when unusable */
+export function parsePrimerBullet(
+  data: unknown
+): { index: number; content: string } | null {
+  if (!isRecord(data) || typeof data.content !== "string") {
+    reportIssues("PrimerBullet", [{ path: ".content", reason: "missing content" }]);
+    return null;
+  }
+  return { index: toNumber(data.index, -1), content: data.content };
+}
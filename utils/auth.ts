@@ -5,6 +5,10 @@ import * as SecureStore from "expo-secure-store";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import Constants from "expo-constants";
 import { CONFIG } from "./config";
+import { createMockTokens } from "./mockBackend";
+import { createLogger } from "./logger";
+
+const log = createLogger("auth");
 
 WebBrowser.maybeCompleteAuthSession();
 
@@ -295,20 +299,53 @@ async function refreshAccessToken(refreshToken: string): Promise<StoredTokens> {
   };
 }
 
+// Shared in-flight refresh so parallel requests don't each hit the token endpoint
+let refreshInFlight: Promise<string | null> | null = null;
+
+function refreshStoredTokens(refreshToken: string): Promise<string | null> {
+  if (!refreshInFlight) {
+    refreshInFlight = refreshAccessToken(refreshToken)
+      .then(async (refreshed) => {
+        await saveTokens(refreshed);
+        return refreshed.accessToken;
+      })
+      .finally(() => {
+        refreshInFlight = null;
+      });
+  }
+  return refreshInFlight;
+}
+
 export async function getValidAccessToken(): Promise<string | null> {
   const tokens = await loadTokens();
   if (!tokens) return null;
   if (!isExpired(tokens.accessTokenExpiresAt)) return tokens.accessToken;
   if (!tokens.refreshToken) return null;
-  const refreshed = await refreshAccessToken(tokens.refreshToken);
-  await saveTokens(refreshed);
-  return refreshed.accessToken;
+  return refreshStoredTokens(tokens.refreshToken);
+}
+
+/**
+ * Refresh the access token even if it hasn't expired locally
+ * (used when the backend rejects it with a 401).
+ * Returns null when there is no refresh token to use.
+ */
+export async function forceRefreshAccessToken(): Promise<string | null> {
+  const tokens = await loadTokens();
+  if (!tokens?.refreshToken) return null;
+  return refreshStoredTokens(tokens.refreshToken);
 }
 
 export async function signInWithCognitoHostedUI(): Promise<{
   tokens: StoredTokens;
   claims: Record<string, any> | null;
 }> {
+  // Mock backend: sign in as the fixture user without opening Cognito
+  if (CONFIG.MOCK_API) {
+    const tokens = createMockTokens();
+    await saveTokens(tokens);
+    return { tokens, claims: decodeJwtPayload(tokens.idToken) };
+  }
+
   const discovery = getDiscovery();
   const redirectUri = getRedirectUri();
 
@@ -323,7 +360,7 @@ export async function signInWithCognitoHostedUI(): Promise<{
   await request.makeAuthUrlAsync(discovery);
   lastAuthorizeUrl = request.url || null;
   if (lastAuthorizeUrl) {
-    console.log("🔐 Cognito authorize URL:", lastAuthorizeUrl);
+    log.debug("🔐 Cognito authorize URL:", lastAuthorizeUrl);
   }
 
   // In Expo Go, Cognito redirects to the proxy (https://auth.expo.io/@owner/slug).
@@ -337,8 +374,8 @@ export async function signInWithCognitoHostedUI(): Promise<{
     });
     lastReturnUrl = returnUrl;
     lastProxyStartUrl = startUrl;
-    console.log("🔐 AuthSession proxy start URL:", startUrl);
-    console.log("🔐 AuthSession proxy return URL:", returnUrl);
+    log.debug("🔐 AuthSession proxy start URL:", startUrl);
+    log.debug("🔐 AuthSession proxy return URL:", returnUrl);
 
     const res = await WebBrowser.openAuthSessionAsync(startUrl, returnUrl);
     if (res.type !== "success") {
@@ -380,7 +417,7 @@ export async function signOut(opts?: { global?: boolean }): Promise<void> {
 
   await clearTokens();
 
-  if (opts?.global) {
+  if (opts?.global && !CONFIG.MOCK_API) {
     const logoutUrl = `${discovery.endSessionEndpoint}?client_id=${
       CONFIG.COGNITO_CLIENT_ID
     }&logout_uri=${encodeURIComponent(redirectUri)}`;
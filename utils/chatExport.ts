@@ -0,0 +1,311 @@
+/**
+ * Conversation export
+ * Renders a saved conversation as Markdown, plain text or a print-ready
+ * HTML page (printed to PDF with expo-print). References from every answer
+ * are collected into one numbered list, and each answer ends with the
+ * numbers it cites. shareConversationExport writes the file to the cache
+ * directory and opens the system share sheet.
+ */
+
+import { File, Paths } from "expo-file-system";
+import * as Print from "expo-print";
+import * as Sharing from "expo-sharing";
+import showdown from "showdown";
+import { Message, loadMessages } from "./chatStorage";
+import { Reference, cleanReferenceValue } from "./references";
+import {
+  citationLine,
+  formatCitation,
+  markdownToPlainText,
+} from "./messageFormat";
+import { createLogger } from "./logger";
+
+const log = createLogger("storage");
+
+export type ExportFormat = "markdown" | "text" | "pdf";
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: "markdown", label: "Markdown" },
+  { value: "text", label: "Plain text" },
+  { value: "pdf", label: "PDF" },
+];
+
+const FILE_TYPES: Record<
+  ExportFormat,
+  { extension: string; mimeType: string; UTI: string }
+> = {
+  markdown: {
+    extension: "md",
+    mimeType: "text/markdown",
+    UTI: "net.daringfireball.markdown",
+  },
+  text: { extension: "txt", mimeType: "text/plain", UTI: "public.plain-text" },
+  pdf: { extension: "pdf", mimeType: "application/pdf", UTI: "com.adobe.pdf" },
+};
+
+interface ExportEntry {
+  message: Message;
+  /** Numbers in the document's reference list cited by this message */
+  citations: number[];
+}
+
+interface ExportDocument {
+  title: string;
+  exportedAt: Date;
+  entries: ExportEntry[];
+  references: Reference[];
+}
+
+/**
+ * Number references across the conversation; a source cited by several
+ * answers keeps its first number. Error bubbles are left out.
+ */
+function buildDocument(title: string, messages: Message[]): ExportDocument {
+  const numbers = new Map<string, number>();
+  const references: Reference[] = [];
+  const entries = messages
+    .filter((message) => message.status !== "error" && message.text.trim())
+    .map((message) => {
+      const citations: number[] = [];
+      (message.references ?? []).forEach((reference) => {
+        const key = formatCitation(reference);
+        let number = numbers.get(key);
+        if (number === undefined) {
+          references.push(reference);
+          number = references.length;
+          numbers.set(key, number);
+        }
+        if (!citations.includes(number)) citations.push(number);
+      });
+      return { message, citations };
+    });
+  return { title, exportedAt: new Date(), entries, references };
+}
+
+function formatDate(date: Date) {
+  return date.toLocaleDateString(undefined, {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+const senderLabel = (message: Message) =>
+  message.sender === "user" ? "You" : "Deen";
+
+const citationList = (citations: number[]) =>
+  citations.map((n) => `[${n}]`).join(", ");
+
+function renderMarkdown(doc: ExportDocument): string {
+  const parts = [
+    `# ${doc.title}`,
+    `_Exported from Deen on ${formatDate(doc.exportedAt)}_`,
+  ];
+  doc.entries.forEach(({ message, citations }) => {
+    parts.push(`## ${senderLabel(message)}`, message.text.trim());
+    if (message.status === "interrupted") parts.push("_(Response stopped)_");
+    if (citations.length > 0) parts.push(`Sources: ${citationList(citations)}`);
+  });
+  if (doc.references.length > 0) {
+    parts.push(
+      "## References",
+      doc.references
+        .map((reference, index) => {
+          const url = cleanReferenceValue(reference.hadith_url);
+          const line = `${index + 1}. ${citationLine(reference)}`;
+          return url ? `${line} <${url}>` : line;
+        })
+        .join("\n")
+    );
+  }
+  return `${parts.join("\n\n")}\n`;
+}
+
+function renderText(doc: ExportDocument): string {
+  const parts = [
+    `${doc.title}\nExported from Deen on ${formatDate(doc.exportedAt)}`,
+  ];
+  doc.entries.forEach(({ message, citations }) => {
+    const lines = [
+      `${senderLabel(message)}:`,
+      markdownToPlainText(message.text),
+    ];
+    if (message.status === "interrupted") lines.push("(Response stopped)");
+    if (citations.length > 0) lines.push(`Sources: ${citationList(citations)}`);
+    parts.push(lines.join("\n"));
+  });
+  if (doc.references.length > 0) {
+    parts.push(
+      `References\n${doc.references
+        .map(
+          (reference, index) => `[${index + 1}] ${formatCitation(reference)}`
+        )
+        .join("\n")}`
+    );
+  }
+  return `${parts.join("\n\n")}\n`;
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Markup showdown produces for answers; anything else in an answer (raw
+// HTML from the model, images) is printed as text so it can't run scripts
+// or fetch remote content in the print view
+const ALLOWED_TAGS = new Set(
+  (
+    "p br hr h1 h2 h3 h4 h5 h6 strong em del code pre blockquote " +
+    "ul ol li a table thead tbody tr th td"
+  ).split(" ")
+);
+
+/** Allowed tags without their attributes; links keep an http(s) href */
+function sanitizeHtml(html: string) {
+  return html.replace(/<[^>]*>?/g, (tag) => {
+    const match = /^<(\/?)([a-z][a-z0-9]*)\b[^>]*>$/i.exec(tag);
+    const name = match?.[2].toLowerCase();
+    if (!match || !name || !ALLOWED_TAGS.has(name)) return escapeHtml(tag);
+    if (name === "a" && !match[1]) {
+      const href = /\shref="(https?:\/\/[^"]*)"/i.exec(tag)?.[1];
+      return href ? `<a href="${href}">` : "<a>";
+    }
+    return `<${match[1]}${name}>`;
+  });
+}
+
+const PRINT_STYLES = `
+  @page { margin: 18mm 16mm; }
+  body { font-family: Georgia, "Times New Roman", serif; font-size: 12pt;
+    line-height: 1.55; color: #111827; margin: 0; }
+  h1 { font-size: 20pt; margin: 0 0 4pt; }
+  .meta { color: #4b5563; font-size: 10pt; margin-bottom: 18pt; }
+  .message { margin: 0 0 14pt; page-break-inside: avoid; }
+  .sender { font-family: -apple-system, Helvetica, Arial, sans-serif;
+    font-size: 9pt; font-weight: 700; letter-spacing: 0.5pt;
+    text-transform: uppercase; color: #4b5563; margin-bottom: 2pt; }
+  .message.user .body { font-style: italic; }
+  .body p { margin: 0 0 6pt; }
+  .note, .sources { font-size: 10pt; color: #4b5563; }
+  pre, code { font-family: Menlo, Consolas, monospace; font-size: 10pt; }
+  blockquote { margin: 6pt 0; padding-left: 10pt; border-left: 3px solid #d1d5db; }
+  h2 { font-size: 14pt; margin: 24pt 0 8pt; border-top: 1px solid #d1d5db;
+    padding-top: 12pt; }
+  ol.references { padding-left: 20pt; font-size: 10.5pt; }
+  ol.references li { margin-bottom: 4pt; }
+  a { color: #111827; word-break: break-all; }
+`;
+
+function renderHtml(doc: ExportDocument): string {
+  const converter = new showdown.Converter({ simplifiedAutoLink: true });
+  const messages = doc.entries
+    .map(({ message, citations }) => {
+      const body =
+        message.sender === "user"
+          ? `<p>${escapeHtml(message.text.trim()).replace(/\n/g, "<br>")}</p>`
+          : sanitizeHtml(converter.makeHtml(message.text));
+      const note =
+        message.status === "interrupted"
+          ? `<div class="note">(Response stopped)</div>`
+          : "";
+      const sources =
+        citations.length > 0
+          ? `<div class="sources">Sources: ${citationList(citations)}</div>`
+          : "";
+      return `<div class="message ${message.sender}">
+  <div class="sender">${senderLabel(message)}</div>
+  <div class="body">${body}</div>${note}${sources}
+</div>`;
+    })
+    .join("\n");
+  const references =
+    doc.references.length > 0
+      ? `<h2>References</h2>
+<ol class="references">${doc.references
+          .map((reference) => {
+            const url = cleanReferenceValue(reference.hadith_url);
+            const link = url
+              ? `<br><a href="${escapeHtml(url)}">${escapeHtml(url)}</a>`
+              : "";
+            return `<li>${escapeHtml(citationLine(reference))}${link}</li>`;
+          })
+          .join("")}</ol>`
+      : "";
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(doc.title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(doc.title)}</h1>
+<div class="meta">Exported from Deen on ${formatDate(doc.exportedAt)}</div>
+${messages}
+${references}
+</body>
+</html>`;
+}
+
+/** Conversation rendered in `format`; PDFs are returned as their HTML source */
+export function renderConversation(
+  title: string,
+  messages: Message[],
+  format: ExportFormat
+): string {
+  const doc = buildDocument(title, messages);
+  if (format === "markdown") return renderMarkdown(doc);
+  if (format === "text") return renderText(doc);
+  return renderHtml(doc);
+}
+
+/** Safe file name from a chat title, e.g. "Ghadir Khumm?" → "Ghadir-Khumm" */
+function fileNameFor(title: string) {
+  const slug = title
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return slug || "Deen-chat";
+}
+
+/**
+ * Export a saved conversation and open the share sheet with the file.
+ * Rejects if the conversation has nothing to export or the device can't
+ * share files.
+ */
+export async function shareConversationExport(
+  sessionId: string,
+  title: string,
+  format: ExportFormat
+): Promise<void> {
+  const messages = await loadMessages(sessionId);
+  if (messages.length === 0) {
+    throw new Error("This chat has no saved messages to export.");
+  }
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error("Sharing files isn't available on this device.");
+  }
+
+  const { extension, mimeType, UTI } = FILE_TYPES[format];
+  const file = new File(Paths.cache, `${fileNameFor(title)}.${extension}`);
+  if (file.exists) file.delete();
+
+  const content = renderConversation(title, messages, format);
+  if (format === "pdf") {
+    const { uri } = await Print.printToFileAsync({ html: content });
+    // Give the printed file a readable name before sharing it
+    new File(uri).move(file);
+  } else {
+    file.create();
+    file.write(content);
+  }
+
+  log.info(`📤 Exported ${messages.length} message(s) as ${format}`);
+  await Sharing.shareAsync(file.uri, { mimeType, UTI, dialogTitle: title });
+}
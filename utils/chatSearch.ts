@@ -0,0 +1,291 @@
+/**
+ * On-device chat history search
+ * An inverted index over the text of every saved message and the titles of
+ * its references. It's built from storage on the first search, then kept
+ * current through chatStorage's message and conversation events.
+ * Matching ignores case and diacritics ("ghadir" finds "Ghadīr"), and each
+ * query word matches the start of a word, so results appear while typing.
+ */
+
+import {
+  ConversationSummary,
+  Message,
+  listConversations,
+  loadMessages,
+  subscribeConversations,
+  subscribeMessages,
+} from "./chatStorage";
+import { Reference } from "./references";
+import { createLogger } from "./logger";
+
+const log = createLogger("storage");
+
+const MAX_RESULTS = 50;
+// Characters of context kept before the first match in a snippet
+const SNIPPET_LEAD = 30;
+const SNIPPET_LENGTH = 120;
+
+export interface ChatSearchResult {
+  sessionId: string;
+  /** Position of the message in its conversation */
+  messageIndex: number;
+  sender: Message["sender"];
+  /** Message text around the first match */
+  snippet: string;
+  /** Set when only a reference title matched */
+  referenceTitle?: string;
+  /** When the conversation was last updated */
+  updatedAt: number;
+}
+
+interface IndexedMessage {
+  sessionId: string;
+  messageIndex: number;
+  sender: Message["sender"];
+  text: string;
+  referenceTitles: string[];
+  /** Occurrences per token */
+  counts: Map<string, number>;
+}
+
+// token → keys of the messages containing it
+const postings = new Map<string, Set<string>>();
+const messagesByKey = new Map<string, IndexedMessage>();
+const keysBySession = new Map<string, string[]>();
+const updatedAtBySession = new Map<string, number>();
+let ready: Promise<void> | null = null;
+
+const WORD_SEPARATOR = /[^\p{L}\p{N}]+/u;
+
+/**
+ * Lowercase `text` and strip its diacritics, keeping for every character of
+ * the result the index it came from in `text`
+ */
+function fold(text: string): { folded: string; offsets: number[] } {
+  let folded = "";
+  const offsets: number[] = [];
+  let position = 0;
+  for (const char of text) {
+    const plain = char.normalize("NFKD").replace(/\p{M}/gu, "").toLowerCase();
+    for (let i = 0; i < plain.length; i++) offsets.push(position);
+    folded += plain;
+    position += char.length;
+  }
+  return { folded, offsets };
+}
+
+function tokenize(text: string): string[] {
+  return fold(text).folded.split(WORD_SEPARATOR).filter(Boolean);
+}
+
+function referenceTitle(reference: Reference) {
+  return [reference.collection, reference.book_title, reference.chapter_title]
+    .filter(Boolean)
+    .join(" • ");
+}
+
+function removeSession(sessionId: string) {
+  keysBySession.get(sessionId)?.forEach((key) => {
+    messagesByKey.get(key)?.counts.forEach((_, token) => {
+      const keys = postings.get(token);
+      keys?.delete(key);
+      if (keys?.size === 0) postings.delete(token);
+    });
+    messagesByKey.delete(key);
+  });
+  keysBySession.delete(sessionId);
+}
+
+function indexSession(sessionId: string, messages: Message[]) {
+  removeSession(sessionId);
+  const keys: string[] = [];
+  messages.forEach((message, messageIndex) => {
+    // Error bubbles hold a failure notice, not conversation text
+    if (message.status === "error") return;
+    const referenceTitles = (message.references ?? [])
+      .map(referenceTitle)
+      .filter(Boolean);
+    const counts = new Map<string, number>();
+    [message.text, ...referenceTitles].forEach((text) =>
+      tokenize(text).forEach((token) =>
+        counts.set(token, (counts.get(token) ?? 0) + 1)
+      )
+    );
+    if (counts.size === 0) return;
+
+    const key = `${sessionId}:${messageIndex}`;
+    keys.push(key);
+    messagesByKey.set(key, {
+      sessionId,
+      messageIndex,
+      sender: message.sender,
+      text: message.text,
+      referenceTitles,
+      counts,
+    });
+    counts.forEach((_, token) => {
+      let tokenKeys = postings.get(token);
+      if (!tokenKeys) {
+        tokenKeys = new Set();
+        postings.set(token, tokenKeys);
+      }
+      tokenKeys.add(key);
+    });
+  });
+  keysBySession.set(sessionId, keys);
+}
+
+function syncConversations(conversations: ConversationSummary[]) {
+  const current = new Set(conversations.map((c) => c.sessionId));
+  conversations.forEach((c) => updatedAtBySession.set(c.sessionId, c.updatedAt));
+  // Purged conversations leave the history without a delete event
+  Array.from(keysBySession.keys())
+    .filter((sessionId) => !current.has(sessionId))
+    .forEach((sessionId) => {
+      removeSession(sessionId);
+      updatedAtBySession.delete(sessionId);
+    });
+}
+
+/** Build the index once; later changes arrive through chatStorage events */
+function ensureIndex(): Promise<void> {
+  if (ready) return ready;
+  ready = (async () => {
+    // Subscribe first so a save during the build isn't lost
+    const pending = new Map<string, Message[] | null>();
+    let building = true;
+    const unsubscribeMessages = subscribeMessages((sessionId, messages) => {
+      if (building) {
+        pending.set(sessionId, messages);
+      } else if (messages) {
+        indexSession(sessionId, messages);
+      } else {
+        removeSession(sessionId);
+      }
+    });
+    const unsubscribeConversations = subscribeConversations(syncConversations);
+
+    let conversations: ConversationSummary[];
+    try {
+      conversations = await listConversations();
+      for (const conversation of conversations) {
+        indexSession(
+          conversation.sessionId,
+          await loadMessages(conversation.sessionId)
+        );
+      }
+      syncConversations(conversations);
+    } catch (e) {
+      // Start over on the next search rather than queueing saves forever
+      unsubscribeMessages();
+      unsubscribeConversations();
+      Array.from(keysBySession.keys()).forEach(removeSession);
+      updatedAtBySession.clear();
+      ready = null;
+      throw e;
+    }
+
+    building = false;
+    pending.forEach((messages, sessionId) => {
+      if (messages) {
+        indexSession(sessionId, messages);
+      } else {
+        removeSession(sessionId);
+      }
+    });
+    log.info(
+      `🔎 Indexed ${messagesByKey.size} message(s) from ${conversations.length} chat(s)`
+    );
+  })().catch((e) => {
+    log.warn("⚠️ Failed to build chat search index:", e);
+  });
+  return ready;
+}
+
+/** Index in `text` of the first word starting with one of `tokens`, or -1 */
+function firstMatch(text: string, tokens: string[]): number {
+  const { folded, offsets } = fold(text);
+  let start = -1;
+  for (const token of tokens) {
+    const match = new RegExp(`(^|[^\\p{L}\\p{N}])${token}`, "u").exec(folded);
+    if (!match) continue;
+    const index = offsets[match.index + match[1].length];
+    if (start === -1 || index < start) start = index;
+  }
+  return start;
+}
+
+/** One line of `text` around `start`, without Markdown markers */
+function snippetAt(text: string, start: number): string {
+  const from = Math.max(0, start - SNIPPET_LEAD);
+  const snippet = text
+    .slice(from, from + SNIPPET_LENGTH)
+    .replace(/[*_#>`]+/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  return `${from > 0 ? "…" : ""}${snippet}${
+    from + SNIPPET_LENGTH < text.length ? "…" : ""
+  }`;
+}
+
+/**
+ * Messages containing every word of `query`, best first: most matches,
+ * then the most recently updated conversation, then earliest in it
+ */
+export async function searchChats(query: string): Promise<ChatSearchResult[]> {
+  const queryTokens = Array.from(new Set(tokenize(query)));
+  if (queryTokens.length === 0) return [];
+  await ensureIndex();
+
+  let candidates: Map<string, number> | null = null;
+  for (const queryToken of queryTokens) {
+    const scores = new Map<string, number>();
+    postings.forEach((keys, token) => {
+      if (!token.startsWith(queryToken)) return;
+      keys.forEach((key) => {
+        const count = messagesByKey.get(key)?.counts.get(token) ?? 0;
+        scores.set(key, (scores.get(key) ?? 0) + count);
+      });
+    });
+    // Every query word has to match
+    if (candidates) {
+      const previous: Map<string, number> = candidates;
+      scores.forEach((score, key) => {
+        if (previous.has(key)) {
+          scores.set(key, score + previous.get(key)!);
+        } else {
+          scores.delete(key);
+        }
+      });
+    }
+    if (scores.size === 0) return [];
+    candidates = scores;
+  }
+
+  return Array.from(candidates ?? [])
+    .map(([key, score]) => ({ message: messagesByKey.get(key)!, score }))
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        (updatedAtBySession.get(b.message.sessionId) ?? 0) -
+          (updatedAtBySession.get(a.message.sessionId) ?? 0) ||
+        a.message.messageIndex - b.message.messageIndex
+    )
+    .slice(0, MAX_RESULTS)
+    .map(({ message }) => {
+      const start = firstMatch(message.text, queryTokens);
+      const result: ChatSearchResult = {
+        sessionId: message.sessionId,
+        messageIndex: message.messageIndex,
+        sender: message.sender,
+        snippet: snippetAt(message.text, Math.max(start, 0)),
+        updatedAt: updatedAtBySession.get(message.sessionId) ?? 0,
+      };
+      if (start === -1) {
+        result.referenceTitle = message.referenceTitles.find(
+          (title) => firstMatch(title, queryTokens) !== -1
+        );
+      }
+      return result;
+    });
+}
@@ -1,13 +1,26 @@
 /**
  * Chat storage utilities using AsyncStorage
- * Handles persistent storage of chat messages with TTL
+ * Handles persistent storage of chat messages and the conversation history:
+ * every session with messages gets a ConversationSummary in an index, so
+ * past chats can be listed, reopened, renamed and deleted.
+ * A conversation is titled after its first question until a summary title
+ * (see setSummaryTitle) or the user's own title replaces it.
+ * Sessions missing from the index (e.g. abandoned before the first message
+ * was saved) still expire after CHAT_EXPIRY_SECONDS.
  */
 
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { CONFIG } from "./config";
 import { STORAGE_KEYS } from "./constants";
+import { Reference, normalizeReference } from "./references";
+import { createLogger } from "./logger";
+
+export type { Reference } from "./references";
+
+const log = createLogger("storage");
 
 const MSGS_PREFIX = STORAGE_KEYS.MESSAGES_PREFIX;
+const CONVERSATIONS_KEY = STORAGE_KEYS.CONVERSATIONS;
 const VERSION = STORAGE_KEYS.MESSAGES_VERSION;
 const EXPIRES_MS = CONFIG.CHAT_EXPIRY_SECONDS * 1000;
 
@@ -19,31 +32,35 @@ const now = () => Date.now();
 
 // Trim references to keep storage small
 const MAX_REFS_PER_MSG = 10;
+// Earlier answers kept per message when answers are regenerated
+const MAX_ANSWER_VERSIONS = 5;
+// Oldest conversations beyond this are deleted by purgeExpiredSessions
+const MAX_CONVERSATIONS = 100;
+// Titles taken from the first question are cut to this many characters
+const MAX_TITLE_LENGTH = 60;
 
-export interface Reference {
-  author?: string;
-  book_title?: string;
-  chapter_title?: string;
-  hadith_no?: string;
-  reference?: string;
-  hadith_url?: string;
-  text?: string;
-  text_ar?: string;
-  sect?: string; // "shia" or "sunni"
-  collection?: string;
-  volume?: string;
-  book_number?: string;
-  chapter_number?: string;
-  grade_en?: string;
-  grade_ar?: string;
-  hadith_id?: string;
-  lang?: string;
+/**
+ * "interrupted" marks a bot answer the user stopped before it finished;
+ * "error" marks a bot bubble that holds a failure message instead of an answer
+ */
+export type MessageStatus = "interrupted" | "error";
+
+/** An earlier answer, kept when the question is re-asked */
+export interface AnswerVersion {
+  /** The question it answered; differs from the current one after an edit */
+  question: string;
+  text: string;
+  references?: Reference[];
+  status?: MessageStatus;
 }
 
 export interface Message {
   sender: "user" | "bot";
   text: string;
   references?: Reference[];
+  status?: MessageStatus;
+  /** Bot messages only: earlier answers, oldest first */
+  versions?: AnswerVersion[];
 }
 
 interface StoredData {
@@ -51,35 +68,194 @@ interface StoredData {
   messages: Message[];
 }
 
+/**
+ * Where a conversation's title came from. Each source replaces the ones
+ * before it, never the other way round: question → summary → user.
+ */
+export type TitleSource = "question" | "summary" | "user";
+
+export interface ConversationSummary {
+  sessionId: string;
+  /** Null until the first question is saved (or the user clears it) */
+  title: string | null;
+  /** Missing on entries saved before titles were automatic */
+  titleSource?: TitleSource;
+  language: string | null;
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+}
+
+type ConversationListener = (conversations: ConversationSummary[]) => void;
+/** `messages` is null when the conversation was deleted */
+type MessagesListener = (sessionId: string, messages: Message[] | null) => void;
+
+const conversationListeners = new Set<ConversationListener>();
+const messagesListeners = new Set<MessagesListener>();
+// Summary titles that arrived before the session's first save indexed it
+const pendingSummaryTitles = new Map<string, string>();
+
+// Entries without a source predate automatic titles, so any title they
+// have was typed by the user
+const titleSourceOf = (conversation: ConversationSummary): TitleSource =>
+  conversation.titleSource ?? (conversation.title ? "user" : "question");
+
+/** First question, on one line and cut at a word boundary */
+function titleFromMessages(messages: Message[]): string | null {
+  const question = messages.find((m) => m.sender === "user");
+  const text = question?.text.replace(/\s+/g, " ").trim();
+  if (!text) return null;
+  if (text.length <= MAX_TITLE_LENGTH) return text;
+  let cut = text.slice(0, MAX_TITLE_LENGTH);
+  const lastSpace = cut.lastIndexOf(" ");
+  if (lastSpace > MAX_TITLE_LENGTH / 2) cut = cut.slice(0, lastSpace);
+  return `${cut.replace(/[\s.,;:!?-]+$/, "")}…`;
+}
+
+/** Title `conversation` from its first question unless it has a better one */
+function withQuestionTitle(
+  conversation: ConversationSummary,
+  messages: Message[]
+): ConversationSummary {
+  if (conversation.title !== null || conversation.titleSource === "user") {
+    return conversation;
+  }
+  const title = titleFromMessages(messages);
+  return title ? { ...conversation, title, titleSource: "question" } : conversation;
+}
+
+// Index read-modify-write calls are chained so they never interleave
+let indexChain: Promise<unknown> = Promise.resolve();
+
+function withIndex<T>(fn: () => Promise<T>): Promise<T> {
+  const next = indexChain.then(fn, fn);
+  indexChain = next.catch(() => undefined);
+  return next;
+}
+
+const sessionIdFromKey = (key: string) =>
+  key.slice(MSGS_PREFIX.length, -(VERSION.length + 1));
+
+/**
+ * Build the index from stored sessions (first run after upgrading, or when
+ * the index was lost or unreadable). Conversations are titled from their
+ * first question.
+ */
+async function rebuildIndex(): Promise<ConversationSummary[]> {
+  const allKeys = await AsyncStorage.getAllKeys();
+  const messageKeys = allKeys.filter(
+    (k) => k.startsWith(MSGS_PREFIX) && k.endsWith(`:${VERSION}`)
+  );
+  const conversations: ConversationSummary[] = [];
+  for (const key of messageKeys) {
+    try {
+      const raw = await AsyncStorage.getItem(key);
+      const parsed: StoredData | null = raw ? JSON.parse(raw) : null;
+      if (!parsed || !Array.isArray(parsed.messages)) continue;
+      if (parsed.messages.length === 0) continue;
+      const sessionId = sessionIdFromKey(key);
+      conversations.push(
+        withQuestionTitle(
+          {
+            sessionId,
+            title: null,
+            language: await AsyncStorage.getItem(languageKeyFor(sessionId)),
+            createdAt: parsed.ts,
+            updatedAt: parsed.ts,
+            messageCount: parsed.messages.length,
+          },
+          parsed.messages
+        )
+      );
+    } catch {
+      // Corrupted entries are cleaned up by purgeExpiredSessions
+    }
+  }
+  return conversations;
+}
+
+function parseIndex(raw: string): ConversationSummary[] | null {
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+async function readIndex(): Promise<ConversationSummary[]> {
+  try {
+    const raw = await AsyncStorage.getItem(CONVERSATIONS_KEY);
+    const parsed = raw === null ? null : parseIndex(raw);
+    if (parsed) return parsed;
+    if (raw !== null) log.warn("⚠️ Conversation index unreadable, rebuilding");
+    const rebuilt = await rebuildIndex();
+    await writeIndex(rebuilt);
+    return rebuilt;
+  } catch (e) {
+    log.warn("⚠️ Failed to read conversation index:", e);
+    return [];
+  }
+}
+
+async function writeIndex(conversations: ConversationSummary[]) {
+  const sorted = conversations
+    .slice()
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+  try {
+    await AsyncStorage.setItem(CONVERSATIONS_KEY, JSON.stringify(sorted));
+  } catch (e) {
+    log.warn("⚠️ Failed to save conversation index:", e);
+  }
+  conversationListeners.forEach((listener) => listener(sorted));
+}
+
+/** Apply `update` to one conversation's summary (no-op if it isn't indexed) */
+function updateConversation(
+  sessionId: string,
+  update: (conversation: ConversationSummary) => ConversationSummary
+): Promise<void> {
+  return withIndex(async () => {
+    const conversations = await readIndex();
+    const index = conversations.findIndex((c) => c.sessionId === sessionId);
+    if (index === -1) return;
+    conversations[index] = update(conversations[index]);
+    await writeIndex(conversations);
+  });
+}
+
+function compactReferences(references: Reference[] | undefined) {
+  if (!Array.isArray(references) || references.length === 0) return undefined;
+  return references
+    .slice(0, MAX_REFS_PER_MSG)
+    .map((r) => normalizeReference({ ...r }));
+}
+
 function compactMessage(msg: Message): Message {
   // Keep only what's needed for rendering
   const base: Message = { sender: msg.sender, text: msg.text || "" };
-  if (Array.isArray(msg.references) && msg.references.length > 0) {
-    base.references = msg.references.slice(0, MAX_REFS_PER_MSG).map((r) => ({
-      author: r.author,
-      book_title: r.book_title,
-      chapter_title: r.chapter_title,
-      hadith_no: r.hadith_no,
-      reference: r.reference,
-      hadith_url: r.hadith_url,
-      text: r.text,
-      text_ar: r.text_ar,
-      sect: r.sect,
-      collection: r.collection,
-      volume: r.volume,
-      book_number: r.book_number,
-      chapter_number: r.chapter_number,
-      grade_en: r.grade_en,
-      grade_ar: r.grade_ar,
-      hadith_id: r.hadith_id,
-      lang: r.lang,
-    }));
+  if (msg.status) {
+    base.status = msg.status;
+  }
+  const references = compactReferences(msg.references);
+  if (references) {
+    base.references = references;
+  }
+  if (Array.isArray(msg.versions) && msg.versions.length > 0) {
+    base.versions = msg.versions.slice(-MAX_ANSWER_VERSIONS).map((v) => {
+      const version: AnswerVersion = { question: v.question, text: v.text };
+      const versionReferences = compactReferences(v.references);
+      if (versionReferences) version.references = versionReferences;
+      if (v.status) version.status = v.status;
+      return version;
+    });
   }
   return base;
 }
 
 /**
- * Remove any stored sessions that are expired or invalid.
+ * Remove stored sessions that are expired or invalid, and the oldest
+ * conversations beyond the history limit.
  * Call this once on app start.
  */
 export async function purgeExpiredSessions(): Promise<void> {
@@ -89,8 +265,33 @@ export async function purgeExpiredSessions(): Promise<void> {
     const messageKeys = allKeys.filter((k) => k.startsWith(MSGS_PREFIX));
 
     const toDelete: string[] = [];
+    const kept = new Set<string>();
+    // Sessions missing from the index (e.g. its write failed) are kept
+    // until they expire; only conversations over the limit are dropped
+    const dropped = new Set<string>();
+
+    await withIndex(async () => {
+      const conversations = await readIndex();
+      const retained = conversations
+        .slice()
+        .sort((a, b) => b.updatedAt - a.updatedAt)
+        .slice(0, MAX_CONVERSATIONS);
+      retained.forEach((c) => kept.add(keyFor(c.sessionId)));
+      conversations
+        .filter((c) => !kept.has(keyFor(c.sessionId)))
+        .forEach((c) => dropped.add(keyFor(c.sessionId)));
+      // Entries whose messages are gone can't be reopened
+      const valid = retained.filter((c) =>
+        messageKeys.includes(keyFor(c.sessionId))
+      );
+      conversations
+        .filter((c) => !valid.includes(c))
+        .forEach((c) => toDelete.push(languageKeyFor(c.sessionId)));
+      if (valid.length !== conversations.length) await writeIndex(valid);
+    });
 
     for (const key of messageKeys) {
+      if (kept.has(key)) continue;
       try {
         const raw = await AsyncStorage.getItem(key);
         if (!raw) {
@@ -106,9 +307,10 @@ export async function purgeExpiredSessions(): Promise<void> {
           continue;
         }
 
-        // Expired - delete
-        if (parsed.ts < cutoff) {
+        // Expired, or dropped from the history - delete
+        if (parsed.ts < cutoff || dropped.has(key)) {
           toDelete.push(key);
+          toDelete.push(languageKeyFor(sessionIdFromKey(key)));
         }
       } catch {
         toDelete.push(key); // corrupted JSON
@@ -117,16 +319,16 @@ export async function purgeExpiredSessions(): Promise<void> {
 
     if (toDelete.length > 0) {
       await AsyncStorage.multiRemove(toDelete);
-      console.log(`🧹 Purged ${toDelete.length} expired session(s)`);
+      log.info(`🧹 Purged ${toDelete.length} expired session key(s)`);
     }
   } catch (e) {
-    console.warn("⚠️ purgeExpiredSessions failed:", e);
+    log.warn("⚠️ purgeExpiredSessions failed:", e);
   }
 }
 
 /**
- * Load messages for a single session, respecting TTL.
- * Returns [] if expired or missing.
+ * Load messages for a single session.
+ * Returns [] if missing or unreadable.
  */
 export async function loadMessages(sessionId: string): Promise<Message[]> {
   try {
@@ -146,15 +348,9 @@ export async function loadMessages(sessionId: string): Promise<Message[]> {
       return [];
     }
 
-    // TTL check
-    if (now() - parsed.ts > EXPIRES_MS) {
-      await AsyncStorage.removeItem(keyFor(sessionId));
-      return [];
-    }
-
     return parsed.messages;
   } catch (e) {
-    console.warn("⚠️ loadMessages failed (possibly corrupted):", e);
+    log.warn("⚠️ loadMessages failed (possibly corrupted):", e);
     // Corrupted → remove to avoid repeated errors
     try {
       await AsyncStorage.removeItem(keyFor(sessionId));
@@ -164,7 +360,8 @@ export async function loadMessages(sessionId: string): Promise<Message[]> {
 }
 
 /**
- * Save messages for a session, refreshing the TTL clock.
+ * Save messages for a session and update its conversation summary.
+ * A session joins the history once it has messages.
  */
 export async function saveMessages(
   sessionId: string,
@@ -177,10 +374,142 @@ export async function saveMessages(
     await AsyncStorage.setItem(keyFor(sessionId), JSON.stringify(payload));
     // Only log occasionally to avoid spam
     if (messages.length % 2 === 0) {
-      console.log(`💾 Saved ${messages.length} message(s) to storage`);
+      log.info(`💾 Saved ${messages.length} message(s) to storage`);
+    }
+
+    messagesListeners.forEach((listener) => listener(sessionId, compact));
+
+    await withIndex(async () => {
+      const conversations = await readIndex();
+      const index = conversations.findIndex((c) => c.sessionId === sessionId);
+      if (index !== -1) {
+        const existing = conversations[index];
+        const titled = withQuestionTitle(existing, compact);
+        if (existing.messageCount === compact.length && titled === existing) {
+          return;
+        }
+        conversations[index] = {
+          ...titled,
+          messageCount: compact.length,
+          updatedAt: payload.ts,
+        };
+      } else {
+        if (compact.length === 0) return;
+        const summaryTitle = pendingSummaryTitles.get(sessionId);
+        pendingSummaryTitles.delete(sessionId);
+        conversations.push(
+          withQuestionTitle(
+            {
+              sessionId,
+              title: summaryTitle ?? null,
+              ...(summaryTitle ? { titleSource: "summary" as const } : {}),
+              language: await AsyncStorage.getItem(languageKeyFor(sessionId)),
+              createdAt: payload.ts,
+              updatedAt: payload.ts,
+              messageCount: compact.length,
+            },
+            compact
+          )
+        );
+      }
+      await writeIndex(conversations);
+    });
+  } catch (e) {
+    log.warn("⚠️ saveMessages failed:", e);
+  }
+}
+
+/**
+ * Past conversations, most recently updated first
+ */
+export function listConversations(): Promise<ConversationSummary[]> {
+  return withIndex(readIndex).then((conversations) =>
+    conversations.slice().sort((a, b) => b.updatedAt - a.updatedAt)
+  );
+}
+
+export function subscribeConversations(
+  listener: ConversationListener
+): () => void {
+  conversationListeners.add(listener);
+  return () => {
+    conversationListeners.delete(listener);
+  };
+}
+
+/**
+ * Called with a session's compacted messages whenever they're saved, and
+ * with null when the conversation is deleted
+ */
+export function subscribeMessages(listener: MessagesListener): () => void {
+  messagesListeners.add(listener);
+  return () => {
+    messagesListeners.delete(listener);
+  };
+}
+
+/**
+ * Rename a conversation; an empty title clears it and automatic titles
+ * stay off for it
+ */
+export function renameConversation(
+  sessionId: string,
+  title: string
+): Promise<void> {
+  const trimmed = title.trim();
+  return updateConversation(sessionId, (conversation) => ({
+    ...conversation,
+    title: trimmed || null,
+    titleSource: "user",
+  }));
+}
+
+/**
+ * Replace a conversation's question title with a summary of it.
+ * Ignored once the user has renamed the conversation.
+ */
+export function setSummaryTitle(
+  sessionId: string,
+  title: string
+): Promise<void> {
+  const trimmed = title.replace(/\s+/g, " ").trim();
+  if (!trimmed) return Promise.resolve();
+  return withIndex(async () => {
+    const conversations = await readIndex();
+    const index = conversations.findIndex((c) => c.sessionId === sessionId);
+    if (index === -1) {
+      // Applied by saveMessages when the conversation is first indexed
+      pendingSummaryTitles.set(sessionId, trimmed);
+      return;
     }
+    if (titleSourceOf(conversations[index]) === "user") return;
+    conversations[index] = {
+      ...conversations[index],
+      title: trimmed,
+      titleSource: "summary",
+    };
+    await writeIndex(conversations);
+  });
+}
+
+/**
+ * Delete a conversation: its messages, language and history entry
+ */
+export async function deleteConversation(sessionId: string): Promise<void> {
+  try {
+    await AsyncStorage.multiRemove([
+      keyFor(sessionId),
+      languageKeyFor(sessionId),
+    ]);
+    await withIndex(async () => {
+      const conversations = await readIndex();
+      await writeIndex(conversations.filter((c) => c.sessionId !== sessionId));
+    });
+    pendingSummaryTitles.delete(sessionId);
+    messagesListeners.forEach((listener) => listener(sessionId, null));
+    log.info("🗑️ Deleted conversation");
   } catch (e) {
-    console.warn("⚠️ saveMessages failed:", e);
+    log.warn("⚠️ deleteConversation failed:", e);
   }
 }
 
@@ -190,11 +519,9 @@ export async function saveMessages(
 export async function clearMessages(sessionId: string): Promise<void> {
   try {
     await AsyncStorage.removeItem(keyFor(sessionId));
-    console.log(
-      `🗑️ Cleared messages for session: ${sessionId.substring(0, 8)}...`
-    );
+    log.info("🗑️ Cleared messages for session");
   } catch (e) {
-    console.warn("⚠️ clearMessages failed:", e);
+    log.warn("⚠️ clearMessages failed:", e);
   }
 }
 
@@ -207,7 +534,7 @@ export async function getChatLanguage(
   try {
     return await AsyncStorage.getItem(languageKeyFor(sessionId));
   } catch (e) {
-    console.warn("⚠️ getChatLanguage failed:", e);
+    log.warn("⚠️ getChatLanguage failed:", e);
     return null;
   }
 }
@@ -221,8 +548,12 @@ export async function setChatLanguage(
 ): Promise<void> {
   try {
     await AsyncStorage.setItem(languageKeyFor(sessionId), language);
+    await updateConversation(sessionId, (conversation) => ({
+      ...conversation,
+      language,
+    }));
   } catch (e) {
-    console.warn("⚠️ setChatLanguage failed:", e);
+    log.warn("⚠️ setChatLanguage failed:", e);
   }
 }
 
@@ -233,7 +564,7 @@ export async function clearChatLanguage(sessionId: string): Promise<void> {
   try {
     await AsyncStorage.removeItem(languageKeyFor(sessionId));
   } catch (e) {
-    console.warn("⚠️ clearChatLanguage failed:", e);
+    log.warn("⚠️ clearChatLanguage failed:", e);
   }
 }
 
@@ -244,7 +575,7 @@ export async function getLastChatLanguage(): Promise<string | null> {
   try {
     return await AsyncStorage.getItem(STORAGE_KEYS.CHAT_LAST_LANGUAGE);
   } catch (e) {
-    console.warn("⚠️ getLastChatLanguage failed:", e);
+    log.warn("⚠️ getLastChatLanguage failed:", e);
     return null;
   }
 }
@@ -256,6 +587,6 @@ export async function setLastChatLanguage(language: string): Promise<void> {
   try {
     await AsyncStorage.setItem(STORAGE_KEYS.CHAT_LAST_LANGUAGE, language);
   } catch (e) {
-    console.warn("⚠️ setLastChatLanguage failed:", e);
+    log.warn("⚠️ setLastChatLanguage failed:", e);
   }
 }
@@ -0,0 +1,263 @@
+/**
+ * Chat stream protocol handling for Deen mobile app
+ * The /chat/stream endpoint may answer in one of three formats:
+ * - "legacy": plain answer text followed by a `[REFERENCES]` marker and a JSON array
+ * - "sse": Server-Sent Events (`event: delta`, `event: references`, …)
+ * - "ndjson": one JSON event per line (`{"type": "delta", "text": "…"}`)
+ * The format is detected from the first bytes, so older backends keep working.
+ */
+
+import { ServerError } from "./apiErrors";
+import { parseReferences } from "./apiValidators";
+import type { Reference } from "./references";
+import { createSseParser } from "./streamClient";
+import { createLogger } from "./logger";
+
+const log = createLogger("chat");
+
+export type ChatStreamFormat = "legacy" | "sse" | "ndjson";
+
+export interface ChatStreamResult {
+  responseText: string;
+  references: Reference[];
+}
+
+export interface ChatStreamHandlers {
+  /** Answer text received so far (never includes the references payload) */
+  onText?: (text: string) => void;
+  onReferences?: (references: Reference[]) => void;
+  /** Legacy format: the marker arrived and the references JSON is streaming */
+  onReferencesPending?: () => void;
+  onStatus?: (message: string) => void;
+}
+
+export const REFERENCES_MARKER = "[REFERENCES]";
+
+/**
+ * Legacy-format text safe to display mid-stream: everything before the
+ * references marker, minus a trailing partial marker such as "[REFER".
+ */
+export function visibleLegacyText(raw: string): string {
+  const markerIndex = raw.indexOf(REFERENCES_MARKER);
+  if (markerIndex !== -1) return raw.slice(0, markerIndex);
+
+  const maxHeld = Math.min(REFERENCES_MARKER.length - 1, raw.length);
+  for (let len = maxHeld; len > 0; len--) {
+    if (REFERENCES_MARKER.startsWith(raw.slice(-len))) {
+      return raw.slice(0, -len);
+    }
+  }
+  return raw;
+}
+
+/**
+ * Parse stream response to separate text from references
+ * @param fullMessage - The complete streamed message
+ * @returns Object with responseText and references
+ */
+export function parseStreamResponse(fullMessage: string): {
+  responseText: string;
+  references: Reference[];
+} {
+  // Be lenient about whitespace/newlines around the marker
+  const marker = REFERENCES_MARKER;
+  const markerIndex = fullMessage.indexOf(marker);
+
+  if (markerIndex === -1) {
+    // No references found
+    return { responseText: fullMessage.trim(), references: [] };
+  }
+
+  // Everything before marker is the assistant text
+  const responseText = fullMessage.slice(0, markerIndex).trim();
+
+  // Everything after marker may include extra newlines — trim it
+  const afterMarker = fullMessage.slice(markerIndex + marker.length).trim();
+
+  // Try to parse JSON
+  try {
+    const parsed = JSON.parse(afterMarker);
+
+    // Support both array and { references: [...] }
+    const references = parseReferences(
+      Array.isArray(parsed)
+        ? parsed
+        : Array.isArray(parsed?.references)
+        ? parsed.references
+        : []
+    );
+
+    return { responseText, references };
+  } catch (err) {
+    log.error("Error parsing references JSON:", err);
+    return { responseText, references: [] };
+  }
+}
+
+
+const SSE_PREFIXES = ["event:", "data:", ":"];
+const TEXT_EVENTS = new Set(["delta", "text", "token", "chunk"]);
+
+function pickString(payload: Record<string, unknown>, keys: string[]) {
+  for (const key of keys) {
+    const value = payload[key];
+    if (typeof value === "string") return value;
+  }
+  return undefined;
+}
+
+function pickReferences(payload: Record<string, unknown>): Reference[] {
+  if (Array.isArray(payload.references)) return parseReferences(payload.references);
+  if (Array.isArray(payload.data)) return parseReferences(payload.data);
+  if (Array.isArray(payload.raw)) return parseReferences(payload.raw);
+  return [];
+}
+
+/**
+ * Decide the stream format from the text received so far.
+ * Returns null while there isn't enough text to tell.
+ */
+export function detectChatStreamFormat(raw: string): ChatStreamFormat | null {
+  const start = raw.trimStart();
+  if (!start) return null;
+
+  for (const prefix of SSE_PREFIXES) {
+    if (start.startsWith(prefix)) return "sse";
+    // Could still become an SSE prefix once more bytes arrive
+    if (prefix.startsWith(start)) return null;
+  }
+
+  if (start.startsWith("{")) {
+    const newline = start.indexOf("\n");
+    if (newline === -1) return null;
+    try {
+      const first = JSON.parse(start.slice(0, newline));
+      return typeof first?.type === "string" ? "ndjson" : "legacy";
+    } catch {
+      return "legacy";
+    }
+  }
+
+  return "legacy";
+}
+
+/**
+ * Incremental parser for the chat stream.
+ * Feed deltas with `push`, then call `end` for the final text and references.
+ */
+export function createChatStreamParser(handlers: ChatStreamHandlers = {}) {
+  let format: ChatStreamFormat | null = null;
+  let raw = "";
+  let text = "";
+  let references: Reference[] = [];
+  let ndjsonBuffer = "";
+  let errorMessage: string | null = null;
+  let lastLegacyText = "";
+  let referencesPending = false;
+
+  const handleEvent = (name: string, payload: Record<string, unknown>) => {
+    // SSE frames without an event name carry their type in the payload
+    const type =
+      name === "message" && typeof payload.type === "string"
+        ? payload.type
+        : name;
+
+    if (TEXT_EVENTS.has(type)) {
+      const piece = pickString(payload, ["text", "content", "delta", "raw"]);
+      if (piece) {
+        text += piece;
+        handlers.onText?.(text);
+      }
+      return;
+    }
+
+    if (type === "references") {
+      references = pickReferences(payload);
+      handlers.onReferences?.(references);
+      return;
+    }
+
+    if (type === "status") {
+      handlers.onStatus?.(pickString(payload, ["message", "status"]) ?? "");
+      return;
+    }
+
+    if (type === "error") {
+      errorMessage =
+        pickString(payload, ["message", "detail", "raw"]) ?? "Stream error";
+    }
+    // "done" needs no handling: the request completing ends the stream
+  };
+
+  const sse = createSseParser(({ event, data }) => handleEvent(event, data));
+
+  const pushNdjsonLine = (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+    try {
+      const payload = JSON.parse(trimmed) as Record<string, unknown>;
+      handleEvent(String(payload.type ?? "message"), payload);
+    } catch {
+      log.warn("⚠️ Skipping malformed chat stream line");
+    }
+  };
+
+  const route = (chunk: string) => {
+    if (format === "sse") {
+      sse.push(chunk);
+    } else if (format === "ndjson") {
+      ndjsonBuffer += chunk;
+      const lines = ndjsonBuffer.split(/\r?\n/);
+      ndjsonBuffer = lines.pop() ?? "";
+      lines.forEach(pushNdjsonLine);
+    } else {
+      const visible = visibleLegacyText(raw);
+      if (visible !== lastLegacyText) {
+        lastLegacyText = visible;
+        handlers.onText?.(visible);
+      }
+      if (!referencesPending && raw.includes(REFERENCES_MARKER)) {
+        referencesPending = true;
+        handlers.onReferencesPending?.();
+      }
+    }
+  };
+
+  return {
+    get format() {
+      return format;
+    },
+    push(delta: string) {
+      if (!delta) return;
+      raw += delta;
+      if (format) {
+        route(delta);
+        return;
+      }
+      format = detectChatStreamFormat(raw);
+      if (format) {
+        log.info(`📡 Chat stream format: ${format}`);
+        // Replay everything buffered while detecting
+        route(raw);
+      }
+    },
+    end(): ChatStreamResult {
+      if (!format) {
+        format = "legacy";
+      }
+      if (format === "legacy") {
+        return parseStreamResponse(raw);
+      }
+      if (format === "sse") {
+        sse.flush();
+      } else {
+        pushNdjsonLine(ndjsonBuffer);
+        ndjsonBuffer = "";
+      }
+      if (errorMessage && !text.trim()) {
+        throw new ServerError(errorMessage, { detail: errorMessage });
+      }
+      return { responseText: text.trim(), references };
+    },
+  };
+}
@@ -22,6 +22,12 @@ const ENV_COGNITO_CLIENT_ID = process.env.EXPO_PUBLIC_COGNITO_CLIENT_ID;
 const ENV_COGNITO_ISSUER = process.env.EXPO_PUBLIC_COGNITO_ISSUER;
 const ENV_COGNITO_SCOPES = process.env.EXPO_PUBLIC_COGNITO_SCOPES;
 const ENV_AUTH_REDIRECT_URI = process.env.EXPO_PUBLIC_AUTH_REDIRECT_URI;
+// Mock backend for demos / UI work without a server (see utils/mockBackend.ts)
+const ENV_MOCK_API = process.env.EXPO_PUBLIC_MOCK_API;
+const ENV_MOCK_API_LATENCY_MS = process.env.EXPO_PUBLIC_MOCK_API_LATENCY_MS;
+const ENV_MOCK_API_FAILURE_RATE = process.env.EXPO_PUBLIC_MOCK_API_FAILURE_RATE;
+// Backend-generated chat titles (POST /chat/title); off unless the backend has it
+const ENV_CHAT_TITLE_SUMMARIES = process.env.EXPO_PUBLIC_CHAT_TITLE_SUMMARIES;
 
 function getDevMachineIpFromExpo(): string | undefined {
   // In Expo Go / dev, we can often infer the LAN IP from the dev server host.
@@ -105,18 +111,134 @@ function getDefaultApiBaseUrl(): string {
 
 const DEFAULT_API_BASE_URL = getDefaultApiBaseUrl();
 
-export const CONFIG = {
-  API_BASE_URL: DEFAULT_API_BASE_URL,
-  CHAT_EXPIRY_SECONDS: 1440, // align with backend TTL (seconds)
-  // Cognito / OIDC (public values; safe to ship in a client app)
-  // Defaults match the pool you referenced in chat; override with EXPO_PUBLIC_* for other envs.
-  COGNITO_DOMAIN:
+const DEFAULT_COGNITO = {
+  domain:
     ENV_COGNITO_DOMAIN ||
     "https://eu-north-1nko9a23pf.auth.eu-north-1.amazoncognito.com",
-  COGNITO_CLIENT_ID: ENV_COGNITO_CLIENT_ID || "1bukdrndjlh653q4ddfnmelunq",
-  COGNITO_ISSUER:
+  clientId: ENV_COGNITO_CLIENT_ID || "1bukdrndjlh653q4ddfnmelunq",
+  issuer:
     ENV_COGNITO_ISSUER ||
     "https://cognito-idp.eu-north-1.amazonaws.com/eu-north-1_nKO9a23pF",
+};
+
+// Staging is opt-in per build: the preset is only offered when its URL is set.
+// Example: EXPO_PUBLIC_STAGING_API_BASE_URL="https://staging.example.com"
+const ENV_STAGING_API_BASE_URL = process.env.EXPO_PUBLIC_STAGING_API_BASE_URL;
+const STAGING_COGNITO = {
+  domain:
+    process.env.EXPO_PUBLIC_STAGING_COGNITO_DOMAIN || DEFAULT_COGNITO.domain,
+  clientId:
+    process.env.EXPO_PUBLIC_STAGING_COGNITO_CLIENT_ID ||
+    DEFAULT_COGNITO.clientId,
+  issuer:
+    process.env.EXPO_PUBLIC_STAGING_COGNITO_ISSUER || DEFAULT_COGNITO.issuer,
+};
+
+// ---- Runtime environment (developer switcher in Settings) ----
+
+export type ApiEnvironmentId = "local" | "staging" | "production" | "custom";
+
+/** What a tester picked in Settings; null means "use this build's defaults" */
+export interface ApiEnvironmentSelection {
+  id: ApiEnvironmentId;
+  /** Only used by "custom" */
+  customUrl?: string;
+}
+
+export interface ApiEnvironment {
+  id: ApiEnvironmentId | "default";
+  label: string;
+  apiBaseUrl: string;
+  cognito: typeof DEFAULT_COGNITO;
+}
+
+export interface ApiEnvironmentPreset {
+  id: Exclude<ApiEnvironmentId, "custom">;
+  label: string;
+  /** Undefined when this build doesn't know the preset's URL */
+  apiBaseUrl?: string;
+}
+
+export const API_ENVIRONMENT_PRESETS: ApiEnvironmentPreset[] = [
+  { id: "local", label: "Local", apiBaseUrl: `http://${getDefaultHost()}:8080` },
+  { id: "staging", label: "Staging", apiBaseUrl: ENV_STAGING_API_BASE_URL },
+  { id: "production", label: "Production", apiBaseUrl: PROD_API_BASE_URL },
+];
+
+const BUILD_DEFAULT_ENVIRONMENT: ApiEnvironment = {
+  id: "default",
+  label: "Build default",
+  apiBaseUrl: DEFAULT_API_BASE_URL,
+  cognito: DEFAULT_COGNITO,
+};
+
+let activeEnvironment = BUILD_DEFAULT_ENVIRONMENT;
+
+/** Turn a selection into concrete settings; null when it can't be used */
+export function resolveApiEnvironment(
+  selection: ApiEnvironmentSelection | null
+): ApiEnvironment | null {
+  if (!selection) return BUILD_DEFAULT_ENVIRONMENT;
+
+  if (selection.id === "custom") {
+    const url = selection.customUrl?.trim().replace(/\/+$/, "");
+    if (!url || !/^https?:\/\/[^\s/]+/i.test(url)) return null;
+    return {
+      id: "custom",
+      label: "Custom",
+      apiBaseUrl: url,
+      cognito: DEFAULT_COGNITO,
+    };
+  }
+
+  const preset = API_ENVIRONMENT_PRESETS.find((p) => p.id === selection.id);
+  if (!preset?.apiBaseUrl) return null;
+  return {
+    id: preset.id,
+    label: preset.label,
+    apiBaseUrl: preset.apiBaseUrl.replace(/\/+$/, ""),
+    cognito: preset.id === "staging" ? STAGING_COGNITO : DEFAULT_COGNITO,
+  };
+}
+
+export function getApiEnvironment(): ApiEnvironment {
+  return activeEnvironment;
+}
+
+/**
+ * Swap the environment every CONFIG reader sees from now on.
+ * Use utils/apiEnvironment.ts, which validates and persists the choice.
+ */
+export function setActiveApiEnvironment(environment: ApiEnvironment) {
+  activeEnvironment = environment;
+}
+
+// API and Cognito values are getters so a runtime switch applies to the next
+// request without restarting the app. Read them at call time, not module load.
+export const CONFIG = {
+  get API_BASE_URL() {
+    return activeEnvironment.apiBaseUrl;
+  },
+  CHAT_EXPIRY_SECONDS: 1440, // align with backend TTL (seconds)
+  // Replace a new chat's first-question title with a backend summary
+  CHAT_TITLE_SUMMARIES:
+    ENV_CHAT_TITLE_SUMMARIES === "1" || ENV_CHAT_TITLE_SUMMARIES === "true",
+  // Serve every request from fixtures instead of the network
+  MOCK_API: ENV_MOCK_API === "1" || ENV_MOCK_API === "true",
+  MOCK_API_LATENCY_MS: Number(ENV_MOCK_API_LATENCY_MS) || 400,
+  // 0–1 chance that a mocked request fails with a server error
+  MOCK_API_FAILURE_RATE: Number(ENV_MOCK_API_FAILURE_RATE) || 0,
+  // Cognito / OIDC (public values; safe to ship in a client app)
+  // Defaults match the pool you referenced in chat; override with EXPO_PUBLIC_* for other envs.
+  get COGNITO_DOMAIN() {
+    return activeEnvironment.cognito.domain;
+  },
+  get COGNITO_CLIENT_ID() {
+    return activeEnvironment.cognito.clientId;
+  },
+  get COGNITO_ISSUER() {
+    return activeEnvironment.cognito.issuer;
+  },
   // Space-delimited scopes (Cognito expects this format)
   COGNITO_SCOPES:
     ENV_COGNITO_SCOPES || "openid email phone",
@@ -124,4 +246,4 @@ export const CONFIG = {
   // Example: https://auth.expo.io/@snassabi7/deen-react-native
   AUTH_REDIRECT_URI:
     ENV_AUTH_REDIRECT_URI || "https://auth.expo.io/@snassabi7/deen-react-native",
-} as const;
+};
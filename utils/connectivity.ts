@@ -0,0 +1,131 @@
+/**
+ * Connectivity monitor for Deen mobile app
+ * Tracks whether the backend is reachable. Request outcomes reported by the
+ * HTTP/stream clients flip the state; while offline a lightweight probe runs
+ * periodically (and whenever the app returns to the foreground) to detect
+ * the connection coming back.
+ */
+
+import { AppState, AppStateStatus } from "react-native";
+import { CONFIG } from "./config";
+import { NetworkError } from "./apiErrors";
+import { createLogger } from "./logger";
+
+const log = createLogger("api");
+
+export type ConnectivityStatus = "unknown" | "online" | "offline";
+
+type Listener = (status: ConnectivityStatus) => void;
+
+const PROBE_INTERVAL_MS = 15000;
+const PROBE_TIMEOUT_MS = 5000;
+
+let status: ConnectivityStatus = "unknown";
+let probeTimer: ReturnType<typeof setInterval> | null = null;
+let probeInFlight: Promise<boolean> | null = null;
+const listeners = new Set<Listener>();
+
+function setStatus(next: ConnectivityStatus) {
+  if (status === next) return;
+  status = next;
+  log.info(`📶 Connectivity: ${next}`);
+
+  if (next === "offline" && !probeTimer) {
+    probeTimer = setInterval(() => {
+      checkConnectivity();
+    }, PROBE_INTERVAL_MS);
+    // Confirm right away rather than failing fast for a whole interval; the
+    // mock backend always answers, so there the simulated outage is kept
+    if (!CONFIG.MOCK_API) checkConnectivity();
+  } else if (next !== "offline" && probeTimer) {
+    clearInterval(probeTimer);
+    probeTimer = null;
+  }
+
+  listeners.forEach((listener) => listener(next));
+}
+
+export function getConnectivityStatus(): ConnectivityStatus {
+  return status;
+}
+
+export function isOffline(): boolean {
+  return status === "offline";
+}
+
+/** Any HTTP response (even an error status) proves the backend is reachable */
+export function reportOnline() {
+  setStatus("online");
+}
+
+/** A request failed before reaching the backend */
+export function reportOffline() {
+  setStatus("offline");
+}
+
+/**
+ * Throw right away instead of waiting for a request to time out
+ * when the backend is already known to be unreachable.
+ */
+export function assertOnline() {
+  if (isOffline()) {
+    throw new NetworkError("Offline");
+  }
+}
+
+/**
+ * Probe the backend once. Resolves true when it answered.
+ * Uses plain fetch so it bypasses the fail-fast check in the API clients.
+ */
+export function checkConnectivity(): Promise<boolean> {
+  if (probeInFlight) return probeInFlight;
+  if (CONFIG.MOCK_API) {
+    // The mock backend is always "reachable"; simulated outages report themselves
+    reportOnline();
+    return Promise.resolve(true);
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+
+  probeInFlight = fetch(`${CONFIG.API_BASE_URL}/`, {
+    method: "HEAD",
+    signal: controller.signal,
+  })
+    .then(() => {
+      reportOnline();
+      return true;
+    })
+    .catch(() => {
+      reportOffline();
+      return false;
+    })
+    .finally(() => {
+      clearTimeout(timer);
+      probeInFlight = null;
+    });
+
+  return probeInFlight;
+}
+
+export function subscribeConnectivity(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Check once now and again whenever the app comes back to the foreground.
+ * Call once from the root layout; returns a cleanup function.
+ */
+export function startConnectivityMonitor(): () => void {
+  checkConnectivity();
+  const subscription = AppState.addEventListener(
+    "change",
+    (state: AppStateStatus) => {
+      if (state === "active") checkConnectivity();
+    }
+  );
+  return () => subscription.remove();
+}
@@ -30,4 +30,9 @@ export const STORAGE_KEYS = {
   MESSAGES_VERSION: "v1",
   CHAT_LANGUAGE_PREFIX: "deen:chatLanguage:",
   CHAT_LAST_LANGUAGE: "deen:lastChatLanguage",
+  DEFERRED_WRITES: "deen:deferredWrites:v1",
+  LOGS: "deen:logs:v1",
+  API_ENVIRONMENT: "deen:apiEnvironment:v1",
+  PRIMER_REFRESHES: "deen:primerRefreshes:v1",
+  CONVERSATIONS: "deen:conversations:v1",
 } as const;
@@ -0,0 +1,320 @@
+/**
+ * Deferred writes for Deen mobile app
+ * Writes that can't reach the backend (offline, network failure) are stored
+ * on device and replayed in order once connectivity returns.
+ * Each kind of write registers the function that performs it, so queued
+ * entries survive app restarts as plain JSON.
+ *
+ * Kinds registered with a `key` are outbox writes (see `enqueueWrite`):
+ * always queued first, sent one at a time, and coalesced per key so only
+ * the latest state of e.g. a lesson's progress is sent.
+ */
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import uuid from "react-native-uuid";
+import { STORAGE_KEYS } from "./constants";
+import { toApiError } from "./apiErrors";
+import { isOffline, subscribeConnectivity } from "./connectivity";
+import { createLogger } from "./logger";
+
+const log = createLogger("storage");
+
+export interface DeferredWrite {
+  id: string;
+  kind: string;
+  payload: unknown;
+  createdAt: number;
+  /** Coalescing key for outbox writes */
+  key?: string;
+  /** Failed attempts on retryable server errors */
+  attempts?: number;
+}
+
+interface WriteHandler {
+  run: (payload: any) => Promise<unknown>;
+  key?: (payload: any) => string;
+  merge?: (previous: any, next: any) => unknown;
+}
+
+type Listener = (pendingCount: number) => void;
+
+const STORAGE_KEY = STORAGE_KEYS.DEFERRED_WRITES;
+// Server errors are retried with backoff, then the write is dropped
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 60000;
+
+const handlers = new Map<string, WriteHandler>();
+const listeners = new Set<Listener>();
+
+// AsyncStorage read-modify-write calls are chained so they never interleave
+let storageChain: Promise<unknown> = Promise.resolve();
+let flushing: Promise<void> | null = null;
+// Set when a flush is asked for while one is finishing, so nothing is missed
+let flushRequested = false;
+// Write being sent right now: it must not be merged into
+let inFlightId: string | null = null;
+let syncing = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+function withStorage<T>(fn: () => Promise<T>): Promise<T> {
+  const next = storageChain.then(fn, fn);
+  storageChain = next.catch(() => undefined);
+  return next;
+}
+
+async function readQueue(): Promise<DeferredWrite[]> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+async function writeQueue(queue: DeferredWrite[]) {
+  try {
+    if (queue.length === 0) {
+      await AsyncStorage.removeItem(STORAGE_KEY);
+    } else {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
+    }
+  } catch (e) {
+    log.error("Failed to save deferred writes", e);
+  }
+  listeners.forEach((listener) => listener(queue.length));
+}
+
+/** Failures worth replaying later: the request never reached the backend */
+function isConnectivityFailure(error: unknown) {
+  const { kind } = toApiError(error);
+  return kind === "network" || kind === "timeout";
+}
+
+/**
+ * Register the function that performs a kind of write.
+ * Call at module load, before anything is queued or flushed.
+ * Pass `key` (and optionally `merge`, default: shallow merge) to make the
+ * kind an outbox write that is coalesced per key.
+ */
+export function registerDeferredWriteHandler<P>(
+  kind: string,
+  handler: (payload: P) => Promise<unknown>,
+  options: {
+    key?: (payload: P) => string;
+    merge?: (previous: P, next: P) => P;
+  } = {}
+) {
+  handlers.set(kind, { run: handler, ...options });
+}
+
+export function deferWrite(kind: string, payload: unknown): Promise<void> {
+  return withStorage(async () => {
+    const queue = await readQueue();
+    queue.push({
+      id: String(uuid.v4()),
+      kind,
+      payload,
+      createdAt: Date.now(),
+    });
+    await writeQueue(queue);
+    log.info(`📥 Deferred ${kind} write (${queue.length} pending)`);
+  });
+}
+
+/**
+ * Queue an outbox write and send it in the background.
+ * A queued write with the same key that isn't being sent yet absorbs the new
+ * payload, so rapid updates collapse into one request with the latest state.
+ * Resolves once the write is stored on device.
+ */
+export async function enqueueWrite<P>(kind: string, payload: P): Promise<void> {
+  const handler = handlers.get(kind);
+  if (!handler?.key) {
+    throw new Error(`No outbox write handler registered for "${kind}"`);
+  }
+  const key = handler.key(payload);
+  const merge =
+    handler.merge ??
+    ((previous: any, next: any) => ({ ...previous, ...next }));
+
+  await withStorage(async () => {
+    const queue = await readQueue();
+    const pending = queue.find(
+      (write) =>
+        write.kind === kind && write.key === key && write.id !== inFlightId
+    );
+    if (pending) {
+      pending.payload = merge(pending.payload, payload);
+    } else {
+      queue.push({
+        id: String(uuid.v4()),
+        kind,
+        key,
+        payload,
+        createdAt: Date.now(),
+      });
+    }
+    await writeQueue(queue);
+  });
+
+  if (syncing && !isOffline()) flushDeferredWrites();
+}
+
+/**
+ * Perform a write now, or queue it when offline.
+ * Resolves "queued" instead of rejecting on connectivity failures;
+ * other errors (validation, auth…) still reject.
+ */
+export async function runOrDefer<P>(
+  kind: string,
+  payload: P
+): Promise<"sent" | "queued"> {
+  const handler = handlers.get(kind);
+  if (!handler) {
+    throw new Error(`No deferred write handler registered for "${kind}"`);
+  }
+
+  if (isOffline()) {
+    await deferWrite(kind, payload);
+    return "queued";
+  }
+
+  try {
+    await handler.run(payload);
+    return "sent";
+  } catch (error) {
+    if (!isConnectivityFailure(error)) throw error;
+    await deferWrite(kind, payload);
+    return "queued";
+  }
+}
+
+function scheduleRetry(attempts: number) {
+  if (retryTimer) return;
+  const delay = Math.min(
+    RETRY_MAX_DELAY_MS,
+    RETRY_BASE_DELAY_MS * 2 ** (attempts - 1)
+  );
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    if (syncing) flushDeferredWrites();
+  }, delay);
+}
+
+/** Send the oldest queued write; false when the flush should stop */
+async function sendNext(): Promise<boolean> {
+  const write = await withStorage(async () => {
+    const next = (await readQueue())[0];
+    inFlightId = next?.id ?? null;
+    return next;
+  });
+  if (!write) return false;
+
+  let outcome: "done" | "retry" | "wait" = "done";
+  const handler = handlers.get(write.kind);
+  if (!handler) {
+    log.warn(`⚠️ Dropping deferred ${write.kind} write: no handler`);
+  } else {
+    try {
+      await handler.run(write.payload);
+    } catch (error) {
+      const apiError = toApiError(error);
+      if (isConnectivityFailure(error)) {
+        outcome = "wait";
+      } else if (
+        apiError.retryable &&
+        (write.attempts ?? 0) + 1 < MAX_ATTEMPTS
+      ) {
+        outcome = "retry";
+      } else {
+        log.warn(`⚠️ Dropping deferred ${write.kind} write:`, error);
+      }
+    }
+  }
+
+  // Re-read so writes queued (or merged) during the request are kept
+  const attempts = await withStorage(async () => {
+    inFlightId = null;
+    const latest = await readQueue();
+    if (outcome === "done") {
+      await writeQueue(latest.filter((entry) => entry.id !== write.id));
+      return 0;
+    }
+    const entry = latest.find((e) => e.id === write.id);
+    if (outcome === "retry" && entry) {
+      entry.attempts = (entry.attempts ?? 0) + 1;
+      await writeQueue(latest);
+      return entry.attempts;
+    }
+    return 0;
+  });
+
+  if (outcome === "retry") {
+    log.info(`🔁 Retrying deferred ${write.kind} write (attempt ${attempts})`);
+    scheduleRetry(attempts);
+  }
+  return outcome === "done";
+}
+
+/**
+ * Replay queued writes one at a time, in order. Stops at the first
+ * connectivity failure (the rest wait for the next reconnect); server errors
+ * are retried with backoff; writes the backend rejects are dropped.
+ */
+export function flushDeferredWrites(): Promise<void> {
+  if (flushing) {
+    flushRequested = true;
+    return flushing;
+  }
+  flushRequested = false;
+
+  flushing = (async () => {
+    const count = await getDeferredWriteCount();
+    if (count === 0) return;
+    log.info(`📤 Flushing ${count} deferred write(s)`);
+    while (await sendNext()) {
+      // Keep going until the queue is empty or a write has to wait
+    }
+  })().finally(() => {
+    flushing = null;
+    if (flushRequested && syncing && !isOffline()) flushDeferredWrites();
+  });
+
+  return flushing;
+}
+
+/** Drop everything queued (e.g. on sign-out: writes belong to that user) */
+export function clearDeferredWrites(): Promise<void> {
+  return withStorage(() => writeQueue([]));
+}
+
+export function getDeferredWriteCount(): Promise<number> {
+  return withStorage(readQueue).then((queue) => queue.length);
+}
+
+export function subscribeDeferredWrites(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Flush now and every time connectivity comes back.
+ * Call once while signed in; returns a cleanup function.
+ */
+export function startDeferredWriteSync(): () => void {
+  syncing = true;
+  flushDeferredWrites();
+  const unsubscribe = subscribeConnectivity((status) => {
+    if (status === "online") flushDeferredWrites();
+  });
+  return () => {
+    syncing = false;
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    unsubscribe();
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * Maps API errors to user-facing, localized text and a suggested action
+ * Shared by the chat, references and Hikmah screens
+ */
+
+import { ApiErrorKind, toApiError } from "./apiErrors";
+import { isOffline } from "./connectivity";
+
+export type ErrorAction = "retry" | "signIn" | "none";
+
+export interface ErrorDescription {
+  kind: ApiErrorKind;
+  message: string;
+  action: ErrorAction;
+  /** Button label for `action` (undefined when action is "none") */
+  actionLabel?: string;
+}
+
+type ErrorCopy = Record<ApiErrorKind, string> & {
+  /** Network failure while the connectivity monitor reports offline */
+  offline: string;
+  retry: string;
+  signIn: string;
+};
+
+const ERROR_COPY: Record<string, ErrorCopy> = {
+  english: {
+    network:
+      "Unable to connect to the server. Please check your internet connection.",
+    timeout: "The server is taking too long to respond. Please try again.",
+    unauthorized: "Your session has expired. Please sign in again.",
+    not_found: "We couldn't find what you were looking for.",
+    rate_limited:
+      "You're sending requests too quickly. Please wait a moment and try again.",
+    server:
+      "Something went wrong on our side. Please try again in a moment.",
+    client: "This request couldn't be completed.",
+    aborted: "The request was cancelled.",
+    offline: "You're offline. Reconnect and try again.",
+    retry: "Try again",
+    signIn: "Sign in",
+  },
+  arabic: {
+    network: "تعذّر الاتصال بالخادم. يرجى التحقق من اتصالك بالإنترنت.",
+    timeout: "استغرق الخادم وقتًا طويلًا للرد. يرجى المحاولة مرة أخرى.",
+    unauthorized: "انتهت صلاحية جلستك. يرجى تسجيل الدخول مرة أخرى.",
+    not_found: "لم نتمكن من العثور على ما تبحث عنه.",
+    rate_limited: "أنت ترسل الطلبات بسرعة كبيرة. يرجى الانتظار قليلًا ثم المحاولة.",
+    server: "حدث خطأ من جهتنا. يرجى المحاولة بعد قليل.",
+    client: "تعذّر إكمال هذا الطلب.",
+    aborted: "تم إلغاء الطلب.",
+    offline: "أنت غير متصل بالإنترنت. أعد الاتصال وحاول مرة أخرى.",
+    retry: "حاول مجددًا",
+    signIn: "تسجيل الدخول",
+  },
+  french: {
+    network:
+      "Impossible de joindre le serveur. Veuillez vérifier votre connexion internet.",
+    timeout: "Le serveur met trop de temps à répondre. Veuillez réessayer.",
+    unauthorized: "Votre session a expiré. Veuillez vous reconnecter.",
+    not_found: "Nous n'avons pas trouvé ce que vous cherchez.",
+    rate_limited:
+      "Vous envoyez des requêtes trop rapidement. Patientez un instant puis réessayez.",
+    server:
+      "Un problème est survenu de notre côté. Veuillez réessayer dans un instant.",
+    client: "Cette requête n'a pas pu aboutir.",
+    aborted: "La requête a été annulée.",
+    offline: "Vous êtes hors ligne. Reconnectez-vous et réessayez.",
+    retry: "Réessayer",
+    signIn: "Se connecter",
+  },
+  urdu: {
+    network: "سرور سے رابطہ نہیں ہو سکا۔ براہ کرم اپنا انٹرنیٹ کنکشن چیک کریں۔",
+    timeout: "سرور جواب دینے میں بہت وقت لے رہا ہے۔ براہ کرم دوبارہ کوشش کریں۔",
+    unauthorized: "آپ کا سیشن ختم ہو گیا ہے۔ براہ کرم دوبارہ سائن ان کریں۔",
+    not_found: "آپ جو تلاش کر رہے تھے وہ نہیں ملا۔",
+    rate_limited:
+      "آپ بہت تیزی سے درخواستیں بھیج رہے ہیں۔ براہ کرم کچھ دیر انتظار کریں۔",
+    server: "ہماری طرف سے کوئی مسئلہ پیش آیا۔ براہ کرم کچھ دیر بعد کوشش کریں۔",
+    client: "یہ درخواست مکمل نہیں ہو سکی۔",
+    aborted: "درخواست منسوخ کر دی گئی۔",
+    offline: "آپ آف لائن ہیں۔ دوبارہ کنیکٹ ہو کر کوشش کریں۔",
+    retry: "دوبارہ کوشش کریں",
+    signIn: "سائن ان کریں",
+  },
+  farsi: {
+    network: "اتصال به سرور ممکن نیست. لطفاً اتصال اینترنت خود را بررسی کنید.",
+    timeout: "پاسخ سرور بیش از حد طول کشید. لطفاً دوباره تلاش کنید.",
+    unauthorized: "نشست شما منقضی شده است. لطفاً دوباره وارد شوید.",
+    not_found: "آنچه به دنبالش بودید پیدا نشد.",
+    rate_limited: "درخواست‌ها را خیلی سریع ارسال می‌کنید. لطفاً کمی صبر کنید.",
+    server: "مشکلی از سمت ما رخ داد. لطفاً کمی بعد دوباره تلاش کنید.",
+    client: "این درخواست انجام نشد.",
+    aborted: "درخواست لغو شد.",
+    offline: "شما آفلاین هستید. دوباره متصل شوید و تلاش کنید.",
+    retry: "تلاش دوباره",
+    signIn: "ورود",
+  },
+};
+
+const ACTION_BY_KIND: Record<ApiErrorKind, ErrorAction> = {
+  network: "retry",
+  timeout: "retry",
+  unauthorized: "signIn",
+  not_found: "none",
+  rate_limited: "retry",
+  server: "retry",
+  client: "none",
+  aborted: "none",
+};
+
+/**
+ * Describe any thrown value for display
+ * @param error - Anything caught from an API helper
+ * @param language - Chat language name ("english", "arabic", …); defaults to English
+ */
+export function describeError(
+  error: unknown,
+  language: string = "english"
+): ErrorDescription {
+  const apiError = toApiError(error);
+  const copy = ERROR_COPY[language] || ERROR_COPY.english;
+  const action = ACTION_BY_KIND[apiError.kind];
+
+  // Validation-style failures are only useful with the backend's own explanation
+  const message =
+    apiError.kind === "client" && apiError.detail
+      ? `${copy.client} ${apiError.detail}`
+      : apiError.kind === "network" && isOffline()
+      ? copy.offline
+      : copy[apiError.kind];
+
+  return {
+    kind: apiError.kind,
+    message,
+    action,
+    actionLabel:
+      action === "retry"
+        ? copy.retry
+        : action === "signIn"
+        ? copy.signIn
+        : undefined,
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * Lesson glossaries
+ * Baseline primers carry a term → definition map per lesson. These helpers
+ * turn it into sorted lists for the primer page and merge lessons into the
+ * per-tree index (app/hikmah/glossary/[treeId].tsx).
+ */
+
+import { Lesson, PrimerGlossary } from "./api";
+
+export interface GlossaryEntry {
+  term: string;
+  definition: string;
+}
+
+export interface TreeGlossaryEntry extends GlossaryEntry {
+  /** Lessons defining the term, in reading order */
+  lessons: { id: number; title: string }[];
+}
+
+function compareTerms(a: GlossaryEntry, b: GlossaryEntry) {
+  return a.term.localeCompare(b.term, undefined, { sensitivity: "base" });
+}
+
+/** Alphabetical entries of one lesson's glossary */
+export function glossaryEntries(
+  glossary: PrimerGlossary | null | undefined
+): GlossaryEntry[] {
+  return Object.entries(glossary ?? {})
+    .map(([term, definition]) => ({ term, definition }))
+    .sort(compareTerms);
+}
+
+/**
+ * Merge lesson glossaries into one alphabetical index. Terms are matched
+ * case-insensitively; the earliest lesson's definition wins.
+ */
+export function mergeLessonGlossaries(
+  items: { lesson: Lesson; glossary: PrimerGlossary }[]
+): TreeGlossaryEntry[] {
+  const byTerm = new Map<string, TreeGlossaryEntry>();
+
+  items
+    .slice()
+    .sort((a, b) => a.lesson.order_position - b.lesson.order_position)
+    .forEach(({ lesson, glossary }) => {
+      glossaryEntries(glossary).forEach(({ term, definition }) => {
+        const key = term.toLowerCase();
+        const existing = byTerm.get(key);
+        const source = { id: lesson.id, title: lesson.title };
+        if (existing) {
+          if (!existing.lessons.some((l) => l.id === lesson.id)) {
+            existing.lessons.push(source);
+          }
+          return;
+        }
+        byTerm.set(key, { term, definition, lessons: [source] });
+      });
+    });
+
+  return Array.from(byTerm.values()).sort(compareTerms);
+}
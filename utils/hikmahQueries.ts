@@ -0,0 +1,125 @@
+/**
+ * Cached Hikmah queries
+ * Query definitions for the shared cache (utils/queryCache.ts), so the
+ * Hikmah tab, tree detail and lesson reader reuse each other's responses.
+ * Every response is also saved on device so the reader works offline.
+ */
+
+import {
+  BaselinePrimerResponse,
+  getBaselinePrimer,
+  getHikmahTree,
+  getHikmahTrees,
+  getLessonById,
+  getLessonContent,
+  getLessonsByTreeId,
+  HikmahTree,
+  Lesson,
+  LessonContent,
+} from "./api";
+import {
+  getOfflineCopy,
+  setOfflineCopies,
+  setOfflineCopy,
+} from "./hikmahStorage";
+import { QueryDefinition, queryKey, setQueryData } from "./queryCache";
+
+// Every screen asks for lessons with the same params so they share one entry
+const LESSON_LIST_PARAMS = { order_by: "order_position", limit: 200 };
+const TREE_LIST_PARAMS = { limit: 100 };
+const LESSON_CONTENT_PARAMS = { limit: 500 };
+
+/**
+ * Save each successful response on device and serve it back when the
+ * network fails (see QueryEntry.offlineSavedAt)
+ */
+function withOfflineCopy<T>(
+  query: Omit<QueryDefinition<T>, "persist" | "loadOfflineCopy">
+): QueryDefinition<T> {
+  return {
+    ...query,
+    persist: (data) =>
+      data === null ? Promise.resolve() : setOfflineCopy(query.key, data),
+    loadOfflineCopy: () => getOfflineCopy<T>(query.key),
+  };
+}
+
+export function hikmahTreeQuery(
+  treeId: string | number
+): QueryDefinition<HikmahTree> {
+  return withOfflineCopy({
+    key: queryKey(`/hikmah-trees/${treeId}`),
+    fetcher: () => getHikmahTree(treeId),
+  });
+}
+
+export function hikmahTreesQuery(): QueryDefinition<HikmahTree[]> {
+  return withOfflineCopy({
+    key: queryKey("/hikmah-trees", TREE_LIST_PARAMS),
+    fetcher: async () => {
+      const trees = await getHikmahTrees(TREE_LIST_PARAMS);
+      const list = Array.isArray(trees) ? trees : [];
+      // Seed detail entries (and their offline copies) so opening a tree doesn't refetch it
+      const seeded = list.map((tree) => ({
+        cacheKey: hikmahTreeQuery(tree.id).key,
+        data: tree,
+      }));
+      seeded.forEach(({ cacheKey, data }) => setQueryData(cacheKey, data));
+      setOfflineCopies(seeded);
+      return list;
+    },
+  });
+}
+
+export function lessonQuery(lessonId: string | number): QueryDefinition<Lesson> {
+  return withOfflineCopy({
+    key: queryKey(`/lessons/${lessonId}`),
+    fetcher: () => getLessonById(lessonId),
+  });
+}
+
+export function lessonsByTreeQuery(
+  treeId: string | number
+): QueryDefinition<Lesson[]> {
+  return withOfflineCopy({
+    key: queryKey("/lessons", { ...LESSON_LIST_PARAMS, hikmah_tree_id: treeId }),
+    fetcher: async () => {
+      const lessons = await getLessonsByTreeId(Number(treeId), LESSON_LIST_PARAMS);
+      const list = Array.isArray(lessons) ? lessons : [];
+      const seeded = list.map((lesson) => ({
+        cacheKey: lessonQuery(lesson.id).key,
+        data: lesson,
+      }));
+      seeded.forEach(({ cacheKey, data }) => setQueryData(cacheKey, data));
+      setOfflineCopies(seeded);
+      return list;
+    },
+  });
+}
+
+export function lessonContentQuery(
+  lessonId: string | number
+): QueryDefinition<LessonContent[]> {
+  return withOfflineCopy({
+    key: queryKey("/lesson-content", {
+      ...LESSON_CONTENT_PARAMS,
+      lesson_id: lessonId,
+    }),
+    fetcher: async () => {
+      const content = await getLessonContent(
+        Number(lessonId),
+        LESSON_CONTENT_PARAMS
+      );
+      return Array.isArray(content) ? content : [];
+    },
+  });
+}
+
+export function baselinePrimerQuery(
+  lessonId: string | number
+): QueryDefinition<BaselinePrimerResponse | null> {
+  return withOfflineCopy({
+    key: queryKey(`/primers/${lessonId}/baseline`),
+    fetcher: () => getBaselinePrimer(Number(lessonId)),
+  });
+}
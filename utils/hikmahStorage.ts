@@ -1,5 +1,8 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { STORAGE_KEYS } from "./constants";
+import { createLogger } from "./logger";
+
+const log = createLogger("storage");
 
 const ROOT = "deen:hikmah:v1:";
 const key = (k: string) => `${ROOT}${k}`;
@@ -16,6 +19,24 @@ export interface LastReadData {
   ts: number;
 }
 
+type ProgressListener = () => void;
+const progressListeners = new Map<string, Set<ProgressListener>>();
+
+/** Get notified when a tree's stored progress changes (e.g. after hydration) */
+export function subscribeProgress(
+  treeId: string | number,
+  listener: ProgressListener
+): () => void {
+  const id = String(treeId);
+  if (!progressListeners.has(id)) progressListeners.set(id, new Set());
+  progressListeners.get(id)!.add(listener);
+  return () => {
+    const set = progressListeners.get(id);
+    set?.delete(listener);
+    if (set && set.size === 0) progressListeners.delete(id);
+  };
+}
+
 export async function getProgress(treeId: string | number): Promise<ProgressData> {
   try {
     const raw = await AsyncStorage.getItem(key(`progress:${treeId}`));
@@ -40,8 +61,9 @@ export async function setProgress(
         ts: now(),
       })
     );
+    progressListeners.get(String(treeId))?.forEach((listener) => listener());
   } catch (e) {
-    console.error("Failed to save progress", e);
+    log.error("Failed to save progress", e);
   }
 }
 
@@ -64,7 +86,75 @@ export async function setLastRead(
       JSON.stringify({ treeId, lessonId, ts: now() })
     );
   } catch (e) {
-    console.error("Failed to save last read", e);
+    log.error("Failed to save last read", e);
+  }
+}
+
+
+// ---- Offline copies ----
+// Last successful response per query key, so lessons stay readable offline.
+// Cleared on sign-out and backend switches: a copy belongs to one account
+// and one backend
+
+export interface OfflineCopyData<T> {
+  data: T;
+  savedAt: number;
+}
+
+export async function getOfflineCopy<T>(
+  cacheKey: string
+): Promise<OfflineCopyData<T> | null> {
+  try {
+    const raw = await AsyncStorage.getItem(key(`offline:${cacheKey}`));
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    if (parsed?.data === undefined || typeof parsed?.savedAt !== "number") {
+      return null;
+    }
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+export async function setOfflineCopy<T>(cacheKey: string, data: T): Promise<void> {
+  try {
+    await AsyncStorage.setItem(
+      key(`offline:${cacheKey}`),
+      JSON.stringify({ data, savedAt: now() })
+    );
+  } catch (e) {
+    log.error("Failed to save offline copy", e);
+  }
+}
+
+/** Save several offline copies in one write (e.g. items seeded from a list) */
+export async function setOfflineCopies(
+  copies: { cacheKey: string; data: unknown }[]
+): Promise<void> {
+  if (copies.length === 0) return;
+  try {
+    const savedAt = now();
+    await AsyncStorage.multiSet(
+      copies.map(({ cacheKey, data }) => [
+        key(`offline:${cacheKey}`),
+        JSON.stringify({ data, savedAt }),
+      ])
+    );
+  } catch (e) {
+    log.error("Failed to save offline copies", e);
   }
 }
 
+/** Drop every offline copy (e.g. on sign-out or a backend switch) */
+export async function clearOfflineCopies(): Promise<void> {
+  try {
+    const prefix = key("offline:");
+    const keys = (await AsyncStorage.getAllKeys()).filter((k) =>
+      k.startsWith(prefix)
+    );
+    if (keys.length > 0) await AsyncStorage.multiRemove(keys);
+  } catch (e) {
+    log.error("Failed to clear offline copies", e);
+  }
+}
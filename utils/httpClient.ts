@@ -0,0 +1,166 @@
+/**
+ * REST transport for Deen mobile app
+ * fetch wrapper used by every non-streaming helper in utils/api.ts:
+ * - attaches the Cognito bearer token
+ * - retries idempotent requests with exponential backoff
+ * - refreshes the token once and replays the request on 401
+ * - honors Retry-After on 429 / 503
+ * - fails fast while the backend is known to be unreachable
+ */
+
+import { CONFIG } from "./config";
+import { forceRefreshAccessToken, getValidAccessToken } from "./auth";
+import {
+  AbortedError,
+  ApiError,
+  UnauthorizedError,
+  errorFromResponse,
+  toApiError,
+} from "./apiErrors";
+import {
+  assertOnline,
+  isOffline,
+  reportOffline,
+  reportOnline,
+} from "./connectivity";
+import { mockFetch } from "./mockBackend";
+import { createLogger } from "./logger";
+
+const log = createLogger("api");
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+/** Retries after the first attempt (so up to 4 requests in total) */
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8000;
+/** Longer Retry-After values are surfaced to the caller instead of waited out */
+const MAX_RETRY_AFTER_MS = 30000;
+
+export interface ApiFetchOptions {
+  /**
+   * Whether repeating the request is safe. Defaults to true for
+   * GET/HEAD/OPTIONS/PUT/DELETE; set it for read-only POSTs or absolute PATCHes.
+   */
+  idempotent?: boolean;
+  /** Overrides the number of retries for idempotent requests */
+  maxRetries?: number;
+}
+
+async function withAuthHeaders(
+  headers: Record<string, string> = {},
+  tokenOverride?: string | null
+): Promise<Record<string, string>> {
+  try {
+    const token = tokenOverride ?? (await getValidAccessToken());
+    if (!token) return headers;
+    return { ...headers, Authorization: `Bearer ${token}` };
+  } catch {
+    return headers;
+  }
+}
+
+function backoffDelay(attempt: number, error: ApiError): number {
+  if (typeof error.retryAfterMs === "number") {
+    return error.retryAfterMs;
+  }
+  const exponential = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  // Full jitter keeps many clients from retrying in lockstep
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortedError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortedError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Perform an authenticated request.
+ * Resolves with the 2xx Response; rejects with an ApiError subclass.
+ * @param url - Absolute request URL
+ * @param init - fetch init; `headers` must be a plain object
+ * @param options - Retry behavior overrides
+ */
+export async function apiFetch(
+  url: string,
+  init: Omit<RequestInit, "headers"> & { headers?: Record<string, string> } = {},
+  options: ApiFetchOptions = {}
+): Promise<Response> {
+  const method = (init.method || "GET").toUpperCase();
+  const idempotent = options.idempotent ?? IDEMPOTENT_METHODS.has(method);
+  const maxRetries = idempotent
+    ? options.maxRetries ?? DEFAULT_MAX_RETRIES
+    : 0;
+
+  let tokenOverride: string | null = null;
+  let replayedAfterRefresh = false;
+  let attempt = 0;
+
+  while (true) {
+    try {
+      assertOnline();
+      let response: Response;
+      try {
+        const send = CONFIG.MOCK_API ? mockFetch : fetch;
+        response = await send(url, {
+          ...init,
+          method,
+          headers: await withAuthHeaders(init.headers, tokenOverride),
+        });
+      } catch (error) {
+        throw toApiError(error);
+      }
+      reportOnline();
+      if (!response.ok) {
+        throw await errorFromResponse(response);
+      }
+      return response;
+    } catch (err) {
+      const error = toApiError(err);
+
+      // Token may have been revoked or rotated server-side: refresh once and replay
+      if (error instanceof UnauthorizedError && !replayedAfterRefresh) {
+        replayedAfterRefresh = true;
+        const refreshed = await forceRefreshAccessToken().catch(() => null);
+        if (refreshed) {
+          log.info(`🔑 Token refreshed after 401, replaying ${method}`);
+          tokenOverride = refreshed;
+          continue;
+        }
+      }
+
+      // Backing off is pointless while offline; deferred writes resend later
+      const canRetry =
+        error.retryable &&
+        !isOffline() &&
+        attempt < maxRetries &&
+        (error.retryAfterMs === undefined ||
+          error.retryAfterMs <= MAX_RETRY_AFTER_MS);
+      if (!canRetry) {
+        // Only a request that failed all its attempts marks the app offline
+        if (error.kind === "network") reportOffline();
+        throw error;
+      }
+
+      const delay = backoffDelay(attempt, error);
+      attempt += 1;
+      log.warn(
+        `🔁 ${method} failed (${error.kind}), retry ${attempt}/${maxRetries} in ${delay}ms`
+      );
+      await sleep(delay, init.signal);
+    }
+  }
+}
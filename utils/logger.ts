@@ -0,0 +1,234 @@
+/**
+ * Logger for Deen mobile app
+ * Leveled, categorized logging that redacts secrets and personal data
+ * (tokens, emails, user IDs, auth query params) before anything is printed
+ * or stored. Recent entries are kept in a bounded ring buffer persisted on
+ * device so testers can attach them to bug reports (see app/diagnostics.tsx).
+ */
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { STORAGE_KEYS } from "./constants";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogCategory = "api" | "auth" | "storage" | "chat";
+
+export interface LogEntry {
+  id: number;
+  timestamp: number;
+  level: LogLevel;
+  category: LogCategory;
+  /** Message with details appended, already redacted */
+  message: string;
+}
+
+export interface Logger {
+  debug(message: string, ...details: unknown[]): void;
+  info(message: string, ...details: unknown[]): void;
+  warn(message: string, ...details: unknown[]): void;
+  error(message: string, ...details: unknown[]): void;
+}
+
+type Listener = (entries: LogEntry[]) => void;
+
+export const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+export const LOG_CATEGORIES: LogCategory[] = ["api", "auth", "storage", "chat"];
+
+const STORAGE_KEY = STORAGE_KEYS.LOGS;
+const MAX_ENTRIES = 500;
+const MAX_MESSAGE_LENGTH = 2000;
+const PERSIST_DELAY_MS = 2000;
+const REDACTED = "[redacted]";
+
+const LEVEL_RANK: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+// Debug noise stays out of release builds entirely
+const MIN_LEVEL: LogLevel = __DEV__ ? "debug" : "info";
+
+let buffer: LogEntry[] = [];
+let nextId = 1;
+let hydrated: Promise<void> | null = null;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<Listener>();
+
+// ---- Redaction ----
+
+const SENSITIVE_KEY = /token|secret|password|authorization|cookie|email|user_?id|^sub$|code_verifier|code_challenge/i;
+
+const STRING_RULES: [RegExp, string][] = [
+  // JWTs (Cognito id/access tokens)
+  [/eyJ[\w-]+\.[\w-]+\.[\w-]+/g, REDACTED],
+  [/\b(Bearer)\s+[\w.~+/-]+=*/gi, `$1 ${REDACTED}`],
+  // Auth params in URLs and query strings
+  [
+    /([?&#](?:code|state|code_challenge|code_verifier|id_token|access_token|refresh_token|token|user_id|email|login_hint)=)[^&#\s"']*/gi,
+    `$1${REDACTED}`,
+  ],
+  // "user_id": "…" / user_id=… outside URLs
+  [/("?user_?id"?\s*[:=]\s*"?)[^",&\s}]+/gi, `$1${REDACTED}`],
+  [/[\w.+-]+@[\w-]+(\.[\w-]+)+/g, "[email]"],
+  // Session IDs and Cognito subs
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, "[uuid]"],
+];
+
+export function redact(text: string): string {
+  return STRING_RULES.reduce(
+    (result, [pattern, replacement]) => result.replace(pattern, replacement),
+    text
+  );
+}
+
+function stringifyDetail(detail: unknown): string {
+  if (detail instanceof Error) {
+    return `${detail.name}: ${detail.message}`;
+  }
+  if (typeof detail === "string") return detail;
+  if (detail === undefined) return "undefined";
+  try {
+    return JSON.stringify(detail, (key, value) =>
+      key && SENSITIVE_KEY.test(key) && value != null ? REDACTED : value
+    );
+  } catch {
+    return String(detail);
+  }
+}
+
+function formatMessage(message: string, details: unknown[]): string {
+  const text = [message, ...details.map(stringifyDetail)].join(" ");
+  const redacted = redact(text);
+  return redacted.length > MAX_MESSAGE_LENGTH
+    ? `${redacted.slice(0, MAX_MESSAGE_LENGTH)}…`
+    : redacted;
+}
+
+// ---- Ring buffer ----
+
+function notify() {
+  const snapshot = buffer.slice();
+  listeners.forEach((listener) => listener(snapshot));
+}
+
+function schedulePersist() {
+  if (persistTimer) return;
+  persistTimer = setTimeout(() => {
+    persistTimer = null;
+    // Hydrate first so this launch doesn't overwrite the previous one's entries
+    hydrate()
+      .then(() => AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(buffer)))
+      .catch(() => {
+        // Logging must never log its own failures (or throw)
+      });
+  }, PERSIST_DELAY_MS);
+}
+
+/** Merge entries persisted by previous launches in front of this one's */
+function hydrate(): Promise<void> {
+  if (!hydrated) {
+    hydrated = AsyncStorage.getItem(STORAGE_KEY)
+      .then((raw) => {
+        const stored = raw ? JSON.parse(raw) : [];
+        if (!Array.isArray(stored) || stored.length === 0) return;
+        const previous = stored.filter(
+          (entry): entry is LogEntry =>
+            typeof entry?.message === "string" &&
+            typeof entry?.timestamp === "number"
+        );
+        // Re-number so ids stay unique and ordered across launches
+        buffer = [...previous, ...buffer]
+          .slice(-MAX_ENTRIES)
+          .map((entry, index) => ({ ...entry, id: index + 1 }));
+        nextId = buffer.length + 1;
+        notify();
+      })
+      .catch(() => undefined);
+  }
+  return hydrated;
+}
+
+function record(
+  level: LogLevel,
+  category: LogCategory,
+  message: string,
+  details: unknown[]
+) {
+  if (LEVEL_RANK[level] < LEVEL_RANK[MIN_LEVEL]) return;
+
+  const text = formatMessage(message, details);
+  const entry: LogEntry = {
+    id: nextId++,
+    timestamp: Date.now(),
+    level,
+    category,
+    message: text,
+  };
+  buffer.push(entry);
+  if (buffer.length > MAX_ENTRIES) {
+    buffer = buffer.slice(-MAX_ENTRIES);
+  }
+
+  const line = `[${category}] ${text}`;
+  if (level === "error") console.error(line);
+  else if (level === "warn") console.warn(line);
+  else console.log(line);
+
+  schedulePersist();
+  notify();
+}
+
+// ---- Public API ----
+
+/**
+ * Create a logger for one category.
+ * Details are stringified (errors as "Name: message") and redacted along
+ * with the message, so it's safe to pass URLs, payloads and errors.
+ */
+export function createLogger(category: LogCategory): Logger {
+  return {
+    debug: (message, ...details) => record("debug", category, message, details),
+    info: (message, ...details) => record("info", category, message, details),
+    warn: (message, ...details) => record("warn", category, message, details),
+    error: (message, ...details) => record("error", category, message, details),
+  };
+}
+
+/** Recent entries, oldest first, including those from previous launches */
+export async function getLogs(): Promise<LogEntry[]> {
+  await hydrate();
+  return buffer.slice();
+}
+
+export async function clearLogs(): Promise<void> {
+  await hydrate();
+  buffer = [];
+  if (persistTimer) {
+    clearTimeout(persistTimer);
+    persistTimer = null;
+  }
+  try {
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing useful to do; the buffer is already empty in memory
+  }
+  notify();
+}
+
+export function subscribeLogs(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Plain-text export, one line per entry, for sharing in bug reports */
+export function formatLogs(entries: LogEntry[]): string {
+  return entries
+    .map(
+      (entry) =>
+        `${new Date(entry.timestamp).toISOString()} ${entry.level.toUpperCase()} [${entry.category}] ${entry.message}`
+    )
+    .join("\n");
+}
@@ -0,0 +1,61 @@
+/**
+ * Chat message formatting for copy, share and export (utils/chatExport.ts)
+ * Bot answers are Markdown; these helpers turn them into plain text and
+ * render their references as numbered citations.
+ */
+
+import type { Message } from "./chatStorage";
+import {
+  Reference,
+  cleanReferenceValue,
+  formatReferenceSubtitle,
+  formatReferenceTitle,
+} from "./references";
+
+/** Readable text without Markdown syntax; links keep their URL */
+export function markdownToPlainText(markdown: string): string {
+  return markdown
+    .replace(/```[^\n]*\n([\s\S]*?)```/g, "$1")
+    .replace(/`([^`\n]+)`/g, "$1")
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, "$1 ($2)")
+    .replace(/^#{1,6}\s+/gm, "")
+    .replace(/^[ \t]*>[ \t]?/gm, "")
+    .replace(/^[ \t]*(?:-{3,}|\*{3,}|_{3,})[ \t]*$/gm, "")
+    .replace(/^([ \t]*)[-*+][ \t]+/gm, "$1• ")
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/(^|[^\w*])[*_]([^*_\n]+)[*_](?=[^\w*]|$)/gm, "$1$2")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/** Title and location of a reference on one line */
+export function citationLine(reference: Reference): string {
+  return [formatReferenceTitle(reference), formatReferenceSubtitle(reference)]
+    .filter(Boolean)
+    .join(" — ");
+}
+
+/** One citation: title and location on a line, then the link if any */
+export function formatCitation(reference: Reference): string {
+  const line = citationLine(reference);
+  const url = cleanReferenceValue(reference.hadith_url);
+  return url ? `${line}\n    ${url}` : line;
+}
+
+/** "[1] …" per reference, in the order the answer cites them */
+export function formatCitations(references: Reference[]): string {
+  return references
+    .map((reference, index) => `[${index + 1}] ${formatCitation(reference)}`)
+    .join("\n");
+}
+
+/** Plain text of a message followed by its references, for sharing */
+export function formatShareText(
+  message: Pick<Message, "text" | "references">
+): string {
+  const body = markdownToPlainText(message.text);
+  const references = message.references ?? [];
+  if (references.length === 0) return body;
+  return `${body}\n\nReferences\n${formatCitations(references)}`;
+}
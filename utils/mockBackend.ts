@@ -0,0 +1,387 @@
+/**
+ * Mock backend for Deen mobile app
+ * Enabled with EXPO_PUBLIC_MOCK_API=1. Replaces the network underneath
+ * utils/httpClient.ts and utils/streamClient.ts with fixture-driven handlers
+ * (utils/mockFixtures.ts), so every utils/api.ts function, validator and
+ * stream parser runs unchanged without a backend.
+ *
+ * Simulated behaviour:
+ * - latency on every request (EXPO_PUBLIC_MOCK_API_LATENCY_MS)
+ * - streaming in small chunks at a realistic cadence, including the
+ *   chat `[REFERENCES]` payload and the primer SSE events
+ * - random failures (EXPO_PUBLIC_MOCK_API_FAILURE_RATE, 0–1), plus on demand:
+ *   a chat message or search containing "#error", "#offline" or "#slow"
+ *   fails with a server error, fails as if offline, or takes much longer
+ */
+
+import { CONFIG } from "./config";
+import { AbortedError, NetworkError, errorFromStatus } from "./apiErrors";
+import type { StreamRequestOptions } from "./streamClient";
+import {
+  BASELINE_BULLETS,
+  BASELINE_GLOSSARY,
+  HIKMAH_TREES,
+  LESSON_CONTENT,
+  LESSONS,
+  MOCK_ID_TOKEN,
+  PERSONALIZED_BULLETS,
+  REFERENCES,
+  chatAnswer,
+  chatTitle,
+  elaboration,
+} from "./mockFixtures";
+
+type Json = Record<string, any>;
+
+interface MockResult {
+  status: number;
+  body: unknown;
+}
+
+type Failure = "network" | "server";
+
+const CHUNK_MIN_CHARS = 2;
+const CHUNK_MAX_CHARS = 12;
+const CHUNK_INTERVAL_MS = 40;
+const SLOW_FACTOR = 8;
+const MOCK_TOKEN_LIFETIME_MS = 365 * 24 * 60 * 60 * 1000;
+
+// User progress written during this run (resets with the app)
+const progressRecords: Json[] = [];
+let nextProgressId = 1;
+
+function delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortedError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortedError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** Latency with ±50% jitter so responses don't all land at once */
+function latency(trigger: string): number {
+  const base = CONFIG.MOCK_API_LATENCY_MS * (0.5 + Math.random());
+  return Math.round(trigger.includes("#slow") ? base * SLOW_FACTOR : base);
+}
+
+const SERVER_ERROR: MockResult = {
+  status: 500,
+  body: { detail: "Simulated server error (mock)" },
+};
+
+/** Failure to simulate for this request, if any */
+function injectedFailure(trigger: string): Failure | null {
+  if (trigger.includes("#offline")) return "network";
+  if (
+    trigger.includes("#error") ||
+    Math.random() < CONFIG.MOCK_API_FAILURE_RATE
+  ) {
+    return "server";
+  }
+  return null;
+}
+
+function parseBody(body: unknown): Json {
+  if (typeof body !== "string") return (body as Json) ?? {};
+  try {
+    return JSON.parse(body);
+  } catch {
+    return {};
+  }
+}
+
+/** Split an absolute URL into path and query (RN's URL lacks searchParams) */
+function parseUrl(url: string): {
+  path: string;
+  query: Record<string, string>;
+} {
+  const base = CONFIG.API_BASE_URL;
+  const relative = url.startsWith(base) ? url.slice(base.length) : url;
+  const [rawPath, search = ""] = relative.split("?");
+  const query: Record<string, string> = {};
+  search
+    .split("&")
+    .filter(Boolean)
+    .forEach((pair) => {
+      const [key, value = ""] = pair.split("=");
+      query[decodeURIComponent(key)] = decodeURIComponent(value);
+    });
+  return { path: rawPath.replace(/\/+$/, "") || "/", query };
+}
+
+function ok(body: unknown): MockResult {
+  return { status: 200, body };
+}
+
+function notFound(detail: string): MockResult {
+  return { status: 404, body: { detail } };
+}
+
+function matchesQuery(record: Json, query: Record<string, string>) {
+  return ["user_id", "hikmah_tree_id", "lesson_id", "content_id"].every(
+    (key) => query[key] === undefined || String(record[key]) === query[key]
+  );
+}
+
+/** Tokens for the mock user, so signing in works without Cognito */
+export function createMockTokens() {
+  return {
+    accessToken: "mock-access-token",
+    idToken: MOCK_ID_TOKEN,
+    accessTokenExpiresAt: Date.now() + MOCK_TOKEN_LIFETIME_MS,
+  };
+}
+
+// ---- Request/response routes ----
+
+function route(method: string, url: string, body: Json): MockResult {
+  const { path, query } = parseUrl(url);
+  let match: RegExpMatchArray | null;
+
+  if (method === "HEAD" || path === "/") return ok({ status: "ok" });
+
+  if (method === "GET" && path === "/hikmah-trees") return ok(HIKMAH_TREES);
+
+  if (method === "GET" && (match = path.match(/^\/hikmah-trees\/(\d+)$/))) {
+    const tree = HIKMAH_TREES.find((t) => t.id === Number(match![1]));
+    return tree ? ok(tree) : notFound("Hikmah tree not found");
+  }
+
+  if (method === "GET" && path === "/lessons") {
+    return ok(
+      LESSONS.filter(
+        (lesson) =>
+          !query.hikmah_tree_id ||
+          String(lesson.hikmah_tree_id) === query.hikmah_tree_id
+      )
+    );
+  }
+
+  if (method === "GET" && (match = path.match(/^\/lessons\/(\d+)$/))) {
+    const lesson = LESSONS.find((l) => l.id === Number(match![1]));
+    return lesson ? ok(lesson) : notFound("Lesson not found");
+  }
+
+  if (method === "GET" && path === "/lesson-content") {
+    return ok(
+      LESSON_CONTENT.filter(
+        (content) =>
+          !query.lesson_id || String(content.lesson_id) === query.lesson_id
+      )
+    );
+  }
+
+  if (
+    method === "GET" &&
+    (match = path.match(/^\/primers\/(\d+)\/baseline$/))
+  ) {
+    const lessonId = Number(match[1]);
+    const bullets = BASELINE_BULLETS[lessonId];
+    if (!bullets) return notFound("Lesson not found");
+    return ok({
+      lesson_id: lessonId,
+      baseline_bullets: bullets,
+      glossary: BASELINE_GLOSSARY,
+      updated_at: new Date().toISOString(),
+    });
+  }
+
+  if (method === "POST" && path === "/primers/personalized") {
+    if (!BASELINE_BULLETS[Number(body.lesson_id)]) {
+      return notFound("Lesson not found");
+    }
+    return ok({
+      personalized_bullets: PERSONALIZED_BULLETS,
+      generated_at: new Date().toISOString(),
+      from_cache: !body.force_refresh,
+      stale: false,
+      personalized_available: true,
+    });
+  }
+
+  if (method === "POST" && path === "/chat/title") {
+    return ok({ title: chatTitle(String(body.question ?? "")) });
+  }
+
+  if (method === "POST" && path === "/references") {
+    return ok({ response: REFERENCES });
+  }
+
+  if (method === "GET" && path === "/user-progress") {
+    return ok(progressRecords.filter((record) => matchesQuery(record, query)));
+  }
+
+  if (method === "POST" && path === "/user-progress") {
+    const record = {
+      is_completed: false,
+      last_position: 0,
+      percent_complete: 0,
+      ...body,
+      id: nextProgressId++,
+      updated_at: new Date().toISOString(),
+    };
+    progressRecords.push(record);
+    return { status: 201, body: record };
+  }
+
+  if (method === "PATCH" && (match = path.match(/^\/user-progress\/(\d+)$/))) {
+    const record = progressRecords.find((r) => r.id === Number(match![1]));
+    if (!record) return notFound("Progress not found");
+    Object.assign(record, body, { updated_at: new Date().toISOString() });
+    return ok(record);
+  }
+
+  return notFound(`No mock for ${method} ${path}`);
+}
+
+/**
+ * Stand-in for `fetch` used by apiFetch in mock mode.
+ * Resolves with a Response (error statuses included, like fetch);
+ * rejects only for simulated network failures.
+ */
+export async function mockFetch(
+  url: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  const method = (init.method || "GET").toUpperCase();
+  const body = parseBody(init.body);
+  const trigger = JSON.stringify(body);
+
+  await delay(latency(trigger), init.signal);
+
+  const failure = injectedFailure(trigger);
+  if (failure === "network") {
+    // Same shape as React Native's fetch failure
+    throw new TypeError("Network request failed");
+  }
+  const { status, body: responseBody } =
+    failure === "server" ? SERVER_ERROR : route(method, url, body);
+
+  return new Response(JSON.stringify(responseBody), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// ---- Streaming routes ----
+
+function sse(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Primer SSE stream: status updates, model chunks, bullets, metadata, done.
+ * The server flushes one event at a time, so each event is one delta.
+ */
+function primerEvents(body: Json): string[] {
+  const lessonId = Number(body.lesson_id);
+  if (!BASELINE_BULLETS[lessonId]) {
+    return [
+      sse("error", { error: "Lesson not found" }),
+      sse("done", { success: false }),
+    ];
+  }
+  const bulletsJson = JSON.stringify({
+    personalized_bullets: PERSONALIZED_BULLETS,
+  });
+  return [
+    sse("status", { message: "Checking cache..." }),
+    sse("status", { message: "Analyzing your learning history..." }),
+    ...chunk(bulletsJson).map((content) => sse("llm_chunk", { content })),
+    ...PERSONALIZED_BULLETS.map((content, index) =>
+      sse("bullet", { index, content })
+    ),
+    sse("metadata", {
+      from_cache: !body.force_refresh,
+      generated_at: new Date().toISOString(),
+      stale: false,
+      personalized_available: true,
+    }),
+    sse("done", { success: true }),
+  ];
+}
+
+/** The deltas a stream path answers with, in order */
+function streamDeltas(path: string, body: Json): string[] | null {
+  if (path === "/chat/stream") {
+    return chunk(chatAnswer(String(body.user_query ?? "")));
+  }
+  if (path === "/hikmah/elaborate/stream") {
+    return chunk(elaboration(String(body.selected_text ?? "")));
+  }
+  if (path === "/primers/personalized/stream") {
+    return primerEvents(body);
+  }
+  return null;
+}
+
+/** Split text into irregular chunks, like bytes arriving over XHR */
+function chunk(text: string): string[] {
+  const chunks: string[] = [];
+  let index = 0;
+  while (index < text.length) {
+    const size =
+      CHUNK_MIN_CHARS +
+      Math.floor(Math.random() * (CHUNK_MAX_CHARS - CHUNK_MIN_CHARS + 1));
+    chunks.push(text.slice(index, index + size));
+    index += size;
+  }
+  return chunks;
+}
+
+/**
+ * Stand-in for streamRequest in mock mode: same contract (onDelta with
+ * accumulated text, AbortedError on cancel, ApiError on failure).
+ */
+export async function mockStreamRequest({
+  path,
+  body,
+  signal,
+  onDelta,
+}: StreamRequestOptions): Promise<string> {
+  const payload = parseBody(body);
+  const trigger = JSON.stringify(payload);
+
+  await delay(latency(trigger), signal);
+
+  const failure = injectedFailure(trigger);
+  if (failure === "network") {
+    throw new NetworkError("Network error during streaming");
+  }
+  if (failure === "server") {
+    throw errorFromStatus(
+      SERVER_ERROR.status,
+      JSON.stringify(SERVER_ERROR.body)
+    );
+  }
+
+  const deltas = streamDeltas(path, payload);
+  if (!deltas) {
+    throw errorFromStatus(
+      404,
+      JSON.stringify({ detail: `No mock for ${path}` })
+    );
+  }
+
+  const interval = trigger.includes("#slow")
+    ? CHUNK_INTERVAL_MS * SLOW_FACTOR
+    : CHUNK_INTERVAL_MS;
+
+  let accumulated = "";
+  for (const delta of deltas) {
+    await delay(interval, signal);
+    accumulated += delta;
+    onDelta?.(delta, accumulated);
+  }
+  return accumulated;
+}
@@ -0,0 +1,186 @@
+/**
+ * Fixtures for the mock backend (see utils/mockBackend.ts)
+ * Shaped like raw FastAPI payloads so they go through the same validators
+ * and parsers as real responses.
+ */
+
+/** Unsigned id token for the mock user; only ever decoded locally */
+export const MOCK_ID_TOKEN =
+  "eyJhbGciOiJub25lIiwidHlwIjoiSldUIn0.eyJzdWIiOiJtb2NrLXVzZXIiLCJlbWFpbCI6ImRlbW9AZXhhbXBsZS5jb20iLCJuYW1lIjoiRGVtbyBVc2VyIiwiZXhwIjo0MTAyNDQ0ODAwfQ.mock";
+
+export const MOCK_USER_ID = "mock-user";
+
+export const HIKMAH_TREES = [
+  {
+    id: 1,
+    title: "Foundations of Belief",
+    subtitle: "Usul al-Din",
+    summary:
+      "The core principles every Muslim reflects on: Tawhid, justice, prophethood, imamate and the return.",
+    tags: ["beliefs", "beginner"],
+    skill_level: "beginner",
+  },
+  {
+    id: 2,
+    title: "The Practice of Prayer",
+    subtitle: "Salah",
+    summary:
+      "How the daily prayers are performed, and the meaning behind each movement.",
+    tags: ["practice", "fiqh"],
+    skill_level: "intermediate",
+  },
+];
+
+export const LESSONS = [
+  {
+    id: 101,
+    hikmah_tree_id: 1,
+    title: "What is Tawhid?",
+    summary: "The oneness of God and why it shapes everything else.",
+    order_position: 1,
+    estimated_minutes: 6,
+  },
+  {
+    id: 102,
+    hikmah_tree_id: 1,
+    title: "Divine Justice",
+    summary: "Why God's justice is a principle of faith.",
+    order_position: 2,
+    estimated_minutes: 8,
+  },
+  {
+    id: 103,
+    hikmah_tree_id: 1,
+    title: "Prophethood",
+    summary: "The role of prophets as guides for humanity.",
+    order_position: 3,
+    estimated_minutes: 7,
+  },
+  {
+    id: 201,
+    hikmah_tree_id: 2,
+    title: "Preparing for Prayer",
+    summary: "Purity, time and direction.",
+    order_position: 1,
+    estimated_minutes: 5,
+  },
+  {
+    id: 202,
+    hikmah_tree_id: 2,
+    title: "The Movements of Salah",
+    summary: "Standing, bowing and prostrating with presence of heart.",
+    order_position: 2,
+    estimated_minutes: 9,
+  },
+];
+
+const paragraphs = (title: string) => [
+  `## ${title}\n\nThis is sample lesson content served by the mock backend. It is long enough to scroll and to select text for elaboration.\n\n**Ijtihad** and *taqlid* are terms you will meet often; select any sentence to ask for more detail.`,
+  `### Reflection\n\n- Consider how this principle appears in daily life.\n- Note one question to bring to your next study circle.\n\n> "Seek knowledge from the cradle to the grave."`,
+];
+
+export const LESSON_CONTENT = LESSONS.flatMap((lesson) =>
+  paragraphs(lesson.title).map((body, index) => ({
+    id: lesson.id * 10 + index,
+    lesson_id: lesson.id,
+    content_body: body,
+    order_position: index + 1,
+  }))
+);
+
+export const BASELINE_BULLETS: Record<number, string[]> = Object.fromEntries(
+  LESSONS.map((lesson) => [
+    lesson.id,
+    [
+      `Know the key idea behind "${lesson.title}".`,
+      "Notice the Arabic terms and their meanings as you read.",
+      "Finish with the reflection questions at the end.",
+    ],
+  ])
+);
+
+export const BASELINE_GLOSSARY = {
+  ijtihad: "Independent legal reasoning by a qualified scholar",
+  taqlid: "Following the rulings of a qualified scholar",
+};
+
+export const PERSONALIZED_BULLETS = [
+  "You spent longest on the previous lesson's examples; start with the worked example here.",
+  "You prefer short sessions, so read one section, then pause for the reflection.",
+  "Revisit the glossary terms you looked up last time before you begin.",
+];
+
+export const REFERENCES = {
+  shia: [
+    {
+      author: "Shaykh al-Kulayni",
+      book_title: "al-Kafi",
+      chapter_title: "The Virtue of Knowledge",
+      volume: "1",
+      hadith_no: "3",
+      text: "Seeking knowledge is an obligation upon every Muslim.",
+      text_ar: "طلب العلم فريضة على كل مسلم",
+      grade_en: "Sahih",
+      reference: "al-Kafi, vol. 1, hadith 3",
+    },
+    {
+      author: "Imam Ali",
+      book_title: "Nahj al-Balagha",
+      chapter_title: "Sayings",
+      hadith_no: "147",
+      text: "Knowledge is better than wealth: knowledge guards you, while you guard wealth.",
+      reference: "Nahj al-Balagha, saying 147",
+    },
+  ],
+  sunni: [
+    {
+      author: "Imam al-Bukhari",
+      book_title: "Sahih al-Bukhari",
+      chapter_title: "Book of Knowledge",
+      hadith_no: "71",
+      text: "When Allah wishes good for someone, He gives him understanding of the religion.",
+      grade_en: "Sahih",
+      reference: "Sahih al-Bukhari 71",
+    },
+    {
+      author: "Imam Ibn Majah",
+      book_title: "Sunan Ibn Majah",
+      chapter_title: "The Book of the Sunnah",
+      hadith_no: "224",
+      text: "Seeking knowledge is an obligation upon every Muslim.",
+      grade_en: "Hasan",
+      reference: "Sunan Ibn Majah 224",
+    },
+  ],
+};
+
+/** Legacy-format chat answer: text, then the `[REFERENCES]` marker and JSON */
+export function chatAnswer(question: string): string {
+  const answer =
+    `You asked: "${question.trim()}".\n\n` +
+    "This answer comes from the **mock backend**, so it's the same sample every time. " +
+    "It streams in small chunks like the real service, and it cites a few references below.\n\n" +
+    "1. Knowledge is a lifelong obligation.\n" +
+    "2. Understanding the religion is a sign of good.\n\n" +
+    "Tap a reference to read the full text.";
+  const references = [
+    ...REFERENCES.shia.map((reference) => ({ ...reference, sect: "shia" })),
+    ...REFERENCES.sunni.map((reference) => ({ ...reference, sect: "sunni" })),
+  ];
+  return `${answer}\n\n[REFERENCES]\n${JSON.stringify(references)}`;
+}
+
+/** Chat title summary: the question's first few words */
+export function chatTitle(question: string): string {
+  const words = question.replace(/[?!.#]/g, "").trim().split(/\s+/);
+  return `About: ${words.slice(0, 5).join(" ")}`;
+}
+
+export function elaboration(selectedText: string): string {
+  return (
+    `**"${selectedText.trim().slice(0, 80)}"**\n\n` +
+    "In this lesson the phrase points back to the main principle. " +
+    "Scholars read it together with the verses and narrations quoted earlier, " +
+    "so keep that context in mind.\n\n(Mock elaboration.)"
+  );
+}
@@ -0,0 +1,101 @@
+/**
+ * Draft bullets from a personalized primer that's still generating
+ * The primer stream's `llm_chunk` events carry raw model output, normally a
+ * JSON object being written token by token:
+ *   {"personalized_bullets": ["Start with…", "Because you…
+ * These helpers read whatever bullets are legible so far, including the one
+ * being written, so the card can reveal them before the `bullet` events arrive.
+ */
+
+const BULLETS_KEY = '"personalized_bullets"';
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+/**
+ * Read the string items of a (possibly unterminated) JSON array starting at
+ * `start`. The last item may be cut off mid-string; it's returned as-is.
+ */
+function readStringArray(raw: string, start: number): string[] {
+  const items: string[] = [];
+  let current: string | null = null;
+  let index = start;
+
+  while (index < raw.length) {
+    const char = raw[index];
+
+    if (current === null) {
+      if (char === "]") break;
+      if (char === '"') current = "";
+      index += 1;
+      continue;
+    }
+
+    if (char === '"') {
+      items.push(current);
+      current = null;
+      index += 1;
+      continue;
+    }
+
+    if (char === "\\") {
+      const next = raw[index + 1];
+      if (next === undefined) break; // escape cut off by the chunk boundary
+      if (next === "u") {
+        const hex = raw.slice(index + 2, index + 6);
+        if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+        current += String.fromCharCode(parseInt(hex, 16));
+        index += 6;
+        continue;
+      }
+      current += ESCAPES[next] ?? next;
+      index += 2;
+      continue;
+    }
+
+    current += char;
+    index += 1;
+  }
+
+  if (current) items.push(current);
+  return items;
+}
+
+/** Plain-text output: one bullet per "-", "•", "*" or "1." line */
+function readPlainBullets(raw: string): string[] {
+  return raw
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => /^([-•*]|\d+[.)])\s+/.test(line))
+    .map((line) => line.replace(/^([-•*]|\d+[.)])\s+/, ""));
+}
+
+/**
+ * Bullets legible in the model output received so far.
+ * @param raw - All `llm_chunk` contents concatenated
+ */
+export function extractDraftBullets(raw: string): string[] {
+  const keyIndex = raw.indexOf(BULLETS_KEY);
+  const arrayStart =
+    keyIndex === -1
+      ? raw.trimStart().startsWith("[")
+        ? raw.indexOf("[")
+        : -1
+      : raw.indexOf("[", keyIndex + BULLETS_KEY.length);
+
+  if (arrayStart !== -1) {
+    return readStringArray(raw, arrayStart + 1)
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+  // Still inside the JSON preamble: nothing to show yet
+  if (raw.trimStart().startsWith("{")) return [];
+  return readPlainBullets(raw);
+}
@@ -0,0 +1,70 @@
+/**
+ * Rate limit for on-demand personalized primer regeneration
+ * Each "Refresh for me" runs the model again, so a lesson can only be
+ * regenerated once per cooldown. Timestamps are stored on device so
+ * restarting the app doesn't reset the limit.
+ */
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { STORAGE_KEYS } from "./constants";
+import { createLogger } from "./logger";
+
+const log = createLogger("storage");
+
+export const PRIMER_REFRESH_COOLDOWN_MS = 10 * 60 * 1000;
+
+const STORAGE_KEY = STORAGE_KEYS.PRIMER_REFRESHES;
+
+// `${userId}:${lessonId}` → epoch ms of the last refresh
+let refreshes: Record<string, number> | null = null;
+
+function refreshKey(userId: string, lessonId: number) {
+  return `${userId}:${lessonId}`;
+}
+
+async function loadRefreshes(): Promise<Record<string, number>> {
+  if (refreshes) return refreshes;
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    refreshes = parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    refreshes = {};
+  }
+  return refreshes!;
+}
+
+/** Epoch ms from which the lesson may be refreshed again (0 = now) */
+export async function getPrimerRefreshAvailableAt(
+  userId: string,
+  lessonId: number
+): Promise<number> {
+  const last = (await loadRefreshes())[refreshKey(userId, lessonId)];
+  if (!last) return 0;
+  const availableAt = last + PRIMER_REFRESH_COOLDOWN_MS;
+  return availableAt > Date.now() ? availableAt : 0;
+}
+
+/**
+ * Record a refresh and return when the next one is allowed.
+ * Expired entries are dropped so the stored map stays small.
+ */
+export async function recordPrimerRefresh(
+  userId: string,
+  lessonId: number
+): Promise<number> {
+  const now = Date.now();
+  const current = await loadRefreshes();
+  const next: Record<string, number> = {};
+  Object.entries(current).forEach(([key, at]) => {
+    if (at + PRIMER_REFRESH_COOLDOWN_MS > now) next[key] = at;
+  });
+  next[refreshKey(userId, lessonId)] = now;
+  refreshes = next;
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (e) {
+    log.warn("⚠️ Failed to save primer refresh time:", e);
+  }
+  return now + PRIMER_REFRESH_COOLDOWN_MS;
+}
@@ -0,0 +1,191 @@
+/**
+ * In-memory query cache for Deen mobile app
+ * Keyed by endpoint + params; deduplicates in-flight requests, expires
+ * entries after a TTL and serves cached data while revalidating
+ * (stale-while-revalidate). Screens read it through hooks/useQuery.ts.
+ * Queries may also persist their data and fall back to that saved copy
+ * when the network fails (offline reading).
+ */
+
+import { toApiError } from "./apiErrors";
+import { createLogger } from "./logger";
+
+const log = createLogger("storage");
+
+export const DEFAULT_QUERY_TTL_MS = 5 * 60 * 1000;
+
+export interface QueryEntry<T = unknown> {
+  data?: T;
+  error?: unknown;
+  /** Epoch ms of the last successful fetch (0 if never) */
+  updatedAt: number;
+  promise?: Promise<T>;
+  /** Set when `data` is a saved offline copy (epoch ms it was saved) */
+  offlineSavedAt?: number;
+}
+
+export interface OfflineCopy<T> {
+  data: T;
+  savedAt: number;
+}
+
+export interface QueryDefinition<T> {
+  key: string;
+  fetcher: () => Promise<T>;
+  ttlMs?: number;
+  /** Store fresh data on device for offline use */
+  persist?: (data: T) => Promise<void>;
+  /** Load the stored copy when a retryable (network/server) failure occurs */
+  loadOfflineCopy?: () => Promise<OfflineCopy<T> | null>;
+}
+
+type Listener = () => void;
+
+const entries = new Map<string, QueryEntry>();
+const listeners = new Map<string, Set<Listener>>();
+
+const now = () => Date.now();
+
+function notify(key: string) {
+  listeners.get(key)?.forEach((listener) => listener());
+}
+
+/**
+ * Build a stable cache key from an endpoint and its params
+ * (param order doesn't matter; empty values are ignored like buildQuery does).
+ */
+export function queryKey(
+  endpoint: string,
+  params: Record<string, unknown> = {}
+): string {
+  const parts = Object.keys(params)
+    .filter((k) => params[k] !== undefined && params[k] !== null && params[k] !== "")
+    .sort()
+    .map((k) => `${k}=${String(params[k])}`);
+  return parts.length ? `${endpoint}?${parts.join("&")}` : endpoint;
+}
+
+export function getQueryEntry<T>(key: string): QueryEntry<T> | undefined {
+  return entries.get(key) as QueryEntry<T> | undefined;
+}
+
+export function isQueryStale(key: string, ttlMs = DEFAULT_QUERY_TTL_MS) {
+  const entry = entries.get(key);
+  return !entry || !entry.updatedAt || now() - entry.updatedAt > ttlMs;
+}
+
+/**
+ * Fetch a query, reusing a request already in flight for the same key.
+ * Resolves with fresh cached data without a request unless `force` is set.
+ */
+export function fetchQuery<T>(
+  {
+    key,
+    fetcher,
+    ttlMs = DEFAULT_QUERY_TTL_MS,
+    persist,
+    loadOfflineCopy,
+  }: QueryDefinition<T>,
+  options: { force?: boolean } = {}
+): Promise<T> {
+  const existing = entries.get(key) as QueryEntry<T> | undefined;
+
+  if (existing?.promise) return existing.promise;
+  if (
+    !options.force &&
+    existing?.data !== undefined &&
+    !isQueryStale(key, ttlMs)
+  ) {
+    return Promise.resolve(existing.data);
+  }
+
+  const entry: QueryEntry<T> = existing || { updatedAt: 0 };
+  const promise = fetcher()
+    .then((data) => {
+      entry.data = data;
+      entry.error = undefined;
+      entry.updatedAt = now();
+      entry.offlineSavedAt = undefined;
+      persist?.(data).catch((e) =>
+        log.warn(`⚠️ Offline copy save failed (${key}):`, e)
+      );
+      return data;
+    })
+    .catch(async (error) => {
+      // Serve the saved copy when the backend is unreachable; updatedAt stays
+      // untouched so the entry is still stale and revalidates next time
+      if (loadOfflineCopy && toApiError(error).retryable) {
+        const copy = entry.data === undefined
+          ? await loadOfflineCopy().catch(() => null)
+          : null;
+        if (copy) {
+          entry.data = copy.data;
+          entry.offlineSavedAt = copy.savedAt;
+        }
+        if (entry.data !== undefined) {
+          entry.error = undefined;
+          if (entry.offlineSavedAt === undefined) {
+            entry.offlineSavedAt = entry.updatedAt;
+          }
+          return entry.data;
+        }
+      }
+      entry.error = error;
+      throw error;
+    })
+    .finally(() => {
+      entry.promise = undefined;
+      notify(key);
+    });
+
+  entry.promise = promise;
+  entries.set(key, entry as QueryEntry);
+  notify(key);
+  return promise;
+}
+
+/**
+ * Seed the cache with data obtained elsewhere (e.g. a list response)
+ */
+export function setQueryData<T>(key: string, data: T) {
+  const entry = entries.get(key) || { updatedAt: 0 };
+  entry.data = data;
+  entry.error = undefined;
+  entry.updatedAt = now();
+  entry.offlineSavedAt = undefined;
+  entries.set(key, entry);
+  notify(key);
+}
+
+/**
+ * Mark entries stale so the next read refetches.
+ * @param match - Exact key, key prefix (e.g. "/lessons"), or predicate
+ */
+export function invalidateQueries(
+  match: string | ((key: string) => boolean)
+) {
+  const test =
+    typeof match === "function" ? match : (key: string) => key.startsWith(match);
+  entries.forEach((entry, key) => {
+    if (!test(key)) return;
+    entry.updatedAt = 0;
+    notify(key);
+  });
+}
+
+/** Drop every cached entry (e.g. on sign-out) */
+export function clearQueryCache() {
+  const keys = Array.from(entries.keys());
+  entries.clear();
+  keys.forEach(notify);
+}
+
+export function subscribeQuery(key: string, listener: Listener) {
+  if (!listeners.has(key)) listeners.set(key, new Set());
+  listeners.get(key)!.add(listener);
+  return () => {
+    const set = listeners.get(key);
+    set?.delete(listener);
+    if (set && set.size === 0) listeners.delete(key);
+  };
+}
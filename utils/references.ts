@@ -0,0 +1,234 @@
+/**
+ * Reference domain model for Deen mobile app
+ * One shape for hadith references, whether they come from reference search,
+ * a chat answer or stored chat history, plus the helpers that normalize
+ * and format them for display.
+ */
+
+export type ReferenceSect = "shia" | "sunni";
+
+export interface Reference {
+  author?: string;
+  book_title?: string;
+  chapter_title?: string;
+  hadith_no?: string;
+  reference?: string;
+  hadith_url?: string;
+  text?: string;
+  text_ar?: string;
+  sect?: ReferenceSect;
+  collection?: string;
+  volume?: string;
+  book_number?: string;
+  chapter_number?: string;
+  grade_en?: string;
+  grade_ar?: string;
+  hadith_id?: string;
+  lang?: string;
+}
+
+/** Search results grouped by sect, as returned by POST /references/ */
+export interface ReferenceResults {
+  shia?: Reference[];
+  sunni?: Reference[];
+}
+
+export interface ReferenceField {
+  label: string;
+  value: string;
+}
+
+/** Everything a reference card needs to render */
+export interface FormattedReference {
+  /** Collection • author • hadith number, or "Reference" */
+  title: string;
+  /** Chapter, book and volume details; empty when unknown */
+  subtitle: string;
+  /** Start of the English text for collapsed cards */
+  preview: string;
+  text: string;
+  textAr: string;
+  /** Labelled metadata for the expanded view (empty values omitted) */
+  fields: ReferenceField[];
+}
+
+const TEXT_FIELDS = [
+  "author",
+  "book_title",
+  "chapter_title",
+  "reference",
+  "hadith_url",
+  "text",
+  "text_ar",
+  "collection",
+  "hadith_id",
+  "lang",
+] as const;
+
+const NUMBER_FIELDS = [
+  "hadith_no",
+  "volume",
+  "book_number",
+  "chapter_number",
+] as const;
+
+/** Values the backend uses when a field is unknown */
+const PLACEHOLDERS = new Set([
+  "n/a",
+  "na",
+  "none",
+  "null",
+  "unspecified",
+  "unknown",
+  "-",
+]);
+
+const PREVIEW_LENGTH = 80;
+
+/**
+ * Trimmed string for a metadata value; undefined for empty values and
+ * placeholders like "N/A" or "unspecified"
+ */
+export function cleanReferenceValue(value: unknown): string | undefined {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? String(value) : undefined;
+  }
+  if (typeof value !== "string") return undefined;
+  const trimmed = value.trim();
+  if (!trimmed || PLACEHOLDERS.has(trimmed.toLowerCase())) return undefined;
+  return trimmed;
+}
+
+/** "Shia", "SHIA", "Shi'a", "shiite" → "shia"; "Sunni", "sunnah" → "sunni" */
+export function normalizeSect(value: unknown): ReferenceSect | undefined {
+  const cleaned = cleanReferenceValue(value)?.toLowerCase();
+  if (!cleaned) return undefined;
+  if (cleaned.startsWith("shi")) return "shia";
+  if (cleaned.startsWith("sunn")) return "sunni";
+  return undefined;
+}
+
+/** Grades arrive in mixed case ("SAHIH", "hasan "); show them capitalized */
+export function normalizeGrade(value: unknown): string | undefined {
+  const cleaned = cleanReferenceValue(value);
+  if (!cleaned) return undefined;
+  // Leave Arabic and already mixed-case grades alone
+  if (cleaned !== cleaned.toUpperCase() && cleaned !== cleaned.toLowerCase()) {
+    return cleaned;
+  }
+  return cleaned.charAt(0).toUpperCase() + cleaned.slice(1).toLowerCase();
+}
+
+/**
+ * Drop prefixes like "#", "No." or "Hadith" so labels can add their own:
+ * "Volume 3" → "3", "Ch. 5" → "5", "vol3" → "3"; "Notes" stays "Notes"
+ */
+export function normalizeNumbering(value: unknown): string | undefined {
+  const cleaned = cleanReferenceValue(value);
+  if (!cleaned) return undefined;
+  const stripped = cleaned
+    // A word prefix must not run on into letters ("Notes", "Chapters")
+    .replace(
+      /^(?:#|(?:number|no|hadith|volume|vol|chapter|ch)(?![a-z])\.?)\s*/i,
+      ""
+    )
+    .trim();
+  return stripped || undefined;
+}
+
+/**
+ * Build a canonical Reference from any payload (API, chat stream, storage).
+ * Unknown keys are dropped; `fallbackSect` is used when the payload has none.
+ */
+export function normalizeReference(
+  raw: Record<string, unknown>,
+  fallbackSect?: ReferenceSect
+): Reference {
+  const reference: Reference = {};
+  TEXT_FIELDS.forEach((field) => {
+    const value = cleanReferenceValue(raw[field]);
+    if (value !== undefined) reference[field] = value;
+  });
+  NUMBER_FIELDS.forEach((field) => {
+    const value = normalizeNumbering(raw[field]);
+    if (value !== undefined) reference[field] = value;
+  });
+  const gradeEn = normalizeGrade(raw.grade_en);
+  if (gradeEn) reference.grade_en = gradeEn;
+  const gradeAr = cleanReferenceValue(raw.grade_ar);
+  if (gradeAr) reference.grade_ar = gradeAr;
+  const sect = normalizeSect(raw.sect) ?? fallbackSect;
+  if (sect) reference.sect = sect;
+  return reference;
+}
+
+/** True when there's nothing to show: no text and nothing to cite it by */
+export function isEmptyReference(reference: Reference): boolean {
+  return !reference.text && !reference.text_ar && !reference.reference;
+}
+
+export function groupReferencesBySect(
+  references: Reference[]
+): Required<ReferenceResults> {
+  return {
+    shia: references.filter((ref) => normalizeSect(ref.sect) === "shia"),
+    sunni: references.filter((ref) => normalizeSect(ref.sect) === "sunni"),
+  };
+}
+
+function joinParts(parts: (string | undefined)[]) {
+  return parts.filter(Boolean).join(" • ");
+}
+
+/** One-line citation, e.g. "Al-Kafi • Al-Kulayni • Hadith #12" */
+export function formatReferenceTitle(reference: Reference): string {
+  return (
+    joinParts([
+      reference.collection,
+      reference.author,
+      reference.hadith_no ? `Hadith #${reference.hadith_no}` : undefined,
+    ]) || "Reference"
+  );
+}
+
+export function formatReferenceSubtitle(reference: Reference): string {
+  return joinParts([
+    reference.chapter_number ? `Ch. ${reference.chapter_number}` : undefined,
+    reference.chapter_title,
+    reference.book_title,
+    reference.volume ? `Vol. ${reference.volume}` : undefined,
+  ]);
+}
+
+export function referenceDetailFields(reference: Reference): ReferenceField[] {
+  const fields: [string, string | undefined][] = [
+    ["Author", reference.author],
+    ["Reference", reference.reference],
+    ["Source", reference.collection],
+    ["Volume", reference.volume],
+    ["Book number", reference.book_number],
+    ["Book title", reference.book_title],
+    ["Chapter number", reference.chapter_number],
+    ["Chapter title", reference.chapter_title],
+    ["Hadith number", reference.hadith_no],
+    ["Authenticity", reference.grade_en],
+  ];
+  return fields
+    .map(([label, value]) => ({ label, value: cleanReferenceValue(value) }))
+    .filter((field): field is ReferenceField => Boolean(field.value));
+}
+
+/**
+ * Display model shared by ReferenceItem and ModalReferenceItem
+ */
+export function formatReference(reference: Reference): FormattedReference {
+  const text = (reference.text || "").trim();
+  return {
+    title: formatReferenceTitle(reference),
+    subtitle: formatReferenceSubtitle(reference),
+    preview: text ? text.substring(0, PREVIEW_LENGTH) : "No text available",
+    text,
+    textAr: (reference.text_ar || "").trim(),
+    fields: referenceDetailFields(reference),
+  };
+}
@@ -0,0 +1,267 @@
+/**
+ * Streaming client for Deen mobile app
+ * Single XMLHttpRequest-based transport shared by every streaming endpoint
+ * (chat, personalized primers, elaborations). Works in Expo Go without
+ * native modules because RN's XHR fires `onprogress` as bytes arrive.
+ */
+
+import { CONFIG } from "./config";
+import { getValidAccessToken } from "./auth";
+import { assertOnline, reportOffline, reportOnline } from "./connectivity";
+import {
+  AbortedError,
+  ApiError,
+  NetworkError,
+  TimeoutError,
+  errorFromStatus,
+} from "./apiErrors";
+import { mockStreamRequest } from "./mockBackend";
+import { createLogger } from "./logger";
+
+const log = createLogger("api");
+
+/** Default time allowed between two received chunks before giving up */
+export const DEFAULT_STREAM_IDLE_TIMEOUT_MS = 30000;
+
+export interface StreamRequestOptions {
+  /** Path relative to the API base URL, e.g. "/chat/stream" */
+  path: string;
+  /** JSON-serializable request body (always sent as POST) */
+  body: unknown;
+  /** Optional Accept header, e.g. "text/event-stream" */
+  accept?: string;
+  /** Cancels the request; rejects with an AbortedError */
+  signal?: AbortSignal;
+  /** Max silence between chunks (including time to first byte) */
+  idleTimeoutMs?: number;
+  /**
+   * Called for every newly received piece of text.
+   * @param delta - Text received since the previous call
+   * @param accumulated - Full response text received so far
+   */
+  onDelta?: (delta: string, accumulated: string) => void;
+}
+
+/**
+ * POST a JSON body and stream the response text incrementally.
+ * Resolves with the complete response text once the request finishes;
+ * rejects with an ApiError subclass (see utils/apiErrors.ts).
+ */
+export async function streamRequest({
+  path,
+  body,
+  accept,
+  signal,
+  idleTimeoutMs = DEFAULT_STREAM_IDLE_TIMEOUT_MS,
+  onDelta,
+}: StreamRequestOptions): Promise<string> {
+  if (signal?.aborted) {
+    throw new AbortedError();
+  }
+  // Don't sit through the idle timeout when we already know we're offline
+  assertOnline();
+
+  if (CONFIG.MOCK_API) {
+    return mockStreamRequest({
+      path,
+      body,
+      accept,
+      signal,
+      idleTimeoutMs,
+      onDelta,
+    })
+      .then((text) => {
+        reportOnline();
+        return text;
+      })
+      .catch((error) => {
+        if (error instanceof NetworkError) reportOffline();
+        throw error;
+      });
+  }
+
+  const bearer = await getValidAccessToken().catch(() => null);
+  // A cancel during the token refresh fired before the listener below exists
+  if (signal?.aborted) {
+    throw new AbortedError();
+  }
+  const url = `${CONFIG.API_BASE_URL}${path}`;
+
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    let lastProcessedIndex = 0;
+    let settled = false;
+    let idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const clearIdleTimer = () => {
+      if (idleTimer) {
+        clearTimeout(idleTimer);
+        idleTimer = null;
+      }
+    };
+
+    const cleanup = () => {
+      clearIdleTimer();
+      signal?.removeEventListener("abort", handleAbort);
+    };
+
+    const settleResolve = (text: string) => {
+      if (settled) return;
+      settled = true;
+      cleanup();
+      resolve(text);
+    };
+
+    const settleReject = (error: ApiError) => {
+      if (settled) return;
+      settled = true;
+      cleanup();
+      reject(error);
+    };
+
+    const handleAbort = () => {
+      xhr.abort();
+      settleReject(new AbortedError());
+    };
+
+    const armIdleTimer = () => {
+      clearIdleTimer();
+      if (!idleTimeoutMs || idleTimeoutMs <= 0) return;
+      idleTimer = setTimeout(() => {
+        log.error(`❌ Stream idle for ${idleTimeoutMs}ms:`, path);
+        xhr.abort();
+        settleReject(new TimeoutError());
+      }, idleTimeoutMs);
+    };
+
+    // Forward only the text we haven't seen yet
+    const flush = () => {
+      const currentText = xhr.responseText || "";
+      if (currentText.length <= lastProcessedIndex) return;
+      const delta = currentText.slice(lastProcessedIndex);
+      lastProcessedIndex = currentText.length;
+      onDelta?.(delta, currentText);
+    };
+
+    signal?.addEventListener("abort", handleAbort, { once: true });
+
+    xhr.open("POST", url);
+    xhr.setRequestHeader("Content-Type", "application/json");
+    if (accept) {
+      xhr.setRequestHeader("Accept", accept);
+    }
+    if (bearer) {
+      xhr.setRequestHeader("Authorization", `Bearer ${bearer}`);
+    }
+
+    xhr.onprogress = () => {
+      if (settled) return;
+      reportOnline();
+      armIdleTimer();
+      flush();
+    };
+
+    xhr.onload = () => {
+      if (settled) return;
+      reportOnline();
+      if (xhr.status >= 200 && xhr.status < 300) {
+        flush();
+        settleResolve(xhr.responseText || "");
+      } else {
+        const errorText = xhr.responseText || xhr.statusText;
+        log.error(`❌ Stream error - HTTP ${xhr.status}: ${errorText}`);
+        settleReject(
+          errorFromStatus(
+            xhr.status,
+            errorText,
+            xhr.getResponseHeader("Retry-After")
+          )
+        );
+      }
+    };
+
+    xhr.onerror = () => {
+      log.error(
+        "❌ Network error - Check your connection and backend availability",
+        { url, status: xhr.status, readyState: xhr.readyState }
+      );
+      reportOffline();
+      settleReject(new NetworkError("Network error during streaming"));
+    };
+
+    armIdleTimer();
+    xhr.send(JSON.stringify(body));
+  });
+}
+
+export interface SseEvent {
+  /** SSE `event:` name ("message" when omitted) */
+  event: string;
+  /** JSON-parsed `data:` payload; `{ raw }` when the data isn't JSON */
+  data: Record<string, unknown>;
+}
+
+function parseSseData(rawData: string): Record<string, unknown> {
+  const trimmed = rawData.trim();
+  if (!trimmed) return {};
+  try {
+    const parsed = JSON.parse(trimmed);
+    return parsed && typeof parsed === "object"
+      ? (parsed as Record<string, unknown>)
+      : { raw: parsed };
+  } catch {
+    return { raw: trimmed };
+  }
+}
+
+/**
+ * Incremental Server-Sent Events parser.
+ * Feed it the deltas from `streamRequest` via `push`, then call `flush`
+ * once the stream ends to dispatch a trailing frame without a blank line.
+ */
+export function createSseParser(onEvent: (event: SseEvent) => void) {
+  let buffer = "";
+
+  const dispatchFrame = (frame: string) => {
+    const trimmedFrame = frame.trim();
+    if (!trimmedFrame) return;
+
+    const lines = trimmedFrame.split(/\r?\n/);
+    let eventName = "message";
+    const dataLines: string[] = [];
+
+    for (const line of lines) {
+      if (line.startsWith("event:")) {
+        eventName = line.slice(6).trim();
+        continue;
+      }
+      if (line.startsWith("data:")) {
+        dataLines.push(line.slice(5).trimStart());
+      }
+    }
+
+    onEvent({ event: eventName, data: parseSseData(dataLines.join("\n")) });
+  };
+
+  return {
+    push(chunk: string) {
+      if (!chunk) return;
+      buffer += chunk;
+
+      while (true) {
+        const match = buffer.match(/\r?\n\r?\n/);
+        if (!match || typeof match.index !== "number") break;
+
+        const frame = buffer.slice(0, match.index);
+        buffer = buffer.slice(match.index + match[0].length);
+        dispatchFrame(frame);
+      }
+    },
+    flush() {
+      if (buffer.trim()) {
+        dispatchFrame(buffer);
+      }
+      buffer = "";
+    },
+  };
+}
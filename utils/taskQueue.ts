@@ -0,0 +1,107 @@
+/**
+ * Bounded-concurrency task queue for Deen mobile app
+ * Runs at most `concurrency` tasks at once; pending tasks are keyed so they
+ * can be deduplicated and re-prioritized (e.g. cards scrolled into view).
+ */
+
+import { AbortedError } from "./apiErrors";
+
+export interface TaskQueue {
+  /**
+   * Queue a task. A task already pending or running under the same key is
+   * reused instead of being queued twice.
+   * @param priority - Higher runs first; ties run in enqueue order
+   */
+  enqueue<T>(key: string, task: () => Promise<T>, priority?: number): Promise<T>;
+  /** Raise the given pending keys above everything else; reset the rest */
+  prioritize(keys: string[]): void;
+  /**
+   * Drop pending tasks (their promises reject with AbortedError). Running
+   * tasks finish, but no longer absorb a new task queued under their key.
+   */
+  clear(): void;
+}
+
+interface PendingTask {
+  run: () => Promise<unknown>;
+  priority: number;
+  seq: number;
+  promise: Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+const BOOSTED_PRIORITY = 1;
+
+export function createTaskQueue(concurrency: number): TaskQueue {
+  const pending = new Map<string, PendingTask>();
+  const running = new Map<string, Promise<unknown>>();
+  // Counted apart from `running`, which clear() detaches tasks from
+  let active = 0;
+  let seq = 0;
+
+  const next = (): [string, PendingTask] | null => {
+    let best: [string, PendingTask] | null = null;
+    for (const entry of pending) {
+      const task = entry[1];
+      if (
+        !best ||
+        task.priority > best[1].priority ||
+        (task.priority === best[1].priority && task.seq < best[1].seq)
+      ) {
+        best = entry;
+      }
+    }
+    return best;
+  };
+
+  const pump = () => {
+    while (active < concurrency) {
+      const item = next();
+      if (!item) return;
+      const [key, task] = item;
+      pending.delete(key);
+      running.set(key, task.promise);
+      active += 1;
+      task
+        .run()
+        .then(task.resolve, task.reject)
+        .finally(() => {
+          active -= 1;
+          if (running.get(key) === task.promise) running.delete(key);
+          pump();
+        });
+    }
+  };
+
+  return {
+    enqueue<T>(key: string, run: () => Promise<T>, priority = 0) {
+      const existing = pending.get(key)?.promise ?? running.get(key);
+      if (existing) return existing as Promise<T>;
+
+      let resolve!: (value: unknown) => void;
+      let reject!: (error: unknown) => void;
+      const promise = new Promise<unknown>((res, rej) => {
+        resolve = res;
+        reject = rej;
+      });
+      pending.set(key, { run, priority, seq: seq++, promise, resolve, reject });
+      pump();
+      return promise as Promise<T>;
+    },
+
+    prioritize(keys: string[]) {
+      const boosted = new Set(keys);
+      pending.forEach((task, key) => {
+        task.priority = boosted.has(key) ? BOOSTED_PRIORITY : 0;
+      });
+    },
+
+    clear() {
+      const dropped = Array.from(pending.values());
+      pending.clear();
+      running.clear();
+      dropped.forEach((task) => task.reject(new AbortedError()));
+    },
+  };
+}